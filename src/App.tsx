@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   StyleSheet,
   View,
@@ -8,6 +8,8 @@ import {
   StatusBar,
   Alert,
   Platform,
+  TextInput,
+  ScrollView,
 } from 'react-native';
 import {
   TensorFlowProvider,
@@ -15,8 +17,14 @@ import {
   DetectionResultScreen,
   HistoryScreen,
 } from './components';
-import { vehicleDetectionService, cloudUploadService } from './services';
-import { VehicleDetectionResult } from './types/detection';
+import {
+  vehicleDetectionService,
+  cloudUploadService,
+  colorTaxonomyService,
+  logoClusterService,
+} from './services';
+import { LogoLabel, VehicleDetectionResult, VEHICLE_ORIENTATION_NAMES } from './types/detection';
+import { normalizePlateText, parsePlateText } from './utils/plateText';
 
 type AppScreen = 'camera' | 'result' | 'history';
 
@@ -27,6 +35,14 @@ const MainApp: React.FC = () => {
   const [isUploading, setIsUploading] = useState(false);
   const [detectionResult, setDetectionResult] = useState<VehicleDetectionResult | null>(null);
   const [history, setHistory] = useState<VehicleDetectionResult[]>([]);
+  const [showCommercialOnly, setShowCommercialOnly] = useState(false);
+  const [plateQuery, setPlateQuery] = useState('');
+  const [colorFilter, setColorFilter] = useState<string | null>(null);
+  // Một mã logo trong nhóm đang chọn; id của nhóm có thể đổi khi lịch sử có thêm xe
+  const [logoFilter, setLogoFilter] = useState<string | null>(null);
+  const [logoLabelDraft, setLogoLabelDraft] = useState('');
+  // Nhãn logo nằm trong logoClusterService; state này để gom nhóm lại khi nhãn thay đổi
+  const [logoLabels, setLogoLabels] = useState<LogoLabel[]>([]);
 
   // Initialize service
   useEffect(() => {
@@ -38,6 +54,7 @@ const MainApp: React.FC = () => {
       }
     };
     init();
+    logoClusterService.loadLabels().then(setLogoLabels);
   }, []);
 
   // Handle image capture
@@ -106,8 +123,65 @@ const MainApp: React.FC = () => {
   // Clear history
   const handleClearHistory = useCallback(() => {
     setHistory([]);
+    setColorFilter(null);
+    setLogoFilter(null);
   }, []);
 
+  // Gom nhóm logo tốn thời gian theo độ dài lịch sử, chỉ chạy lại khi lịch sử hoặc nhãn thay đổi
+  const allLogoClusters = useMemo(
+    () => logoClusterService.clusterHistory(history),
+    [history, logoLabels]
+  );
+  // Chỉ hiện nhóm logo có từ 2 xe trở lên hoặc đã được đặt nhãn
+  const logoClusters = allLogoClusters
+    .filter(cluster => cluster.members.length > 1 || cluster.label);
+  const activeLogoCluster = logoFilter
+    ? logoClusters.find(cluster => cluster.hashes.includes(logoFilter)) || null
+    : null;
+  // Nhãn logo của mọi xe trong ảnh, không trùng lặp
+  const getLogoLabel = (item: VehicleDetectionResult): string | null => {
+    const labels = new Set<string>();
+    item.vehicles.forEach(vehicle => {
+      const hash = vehicle.logoRegion?.perceptualHash;
+      const label = hash && allLogoClusters.find(cluster => cluster.hashes.includes(hash))?.label;
+      if (label) labels.add(label);
+    });
+    return labels.size > 0 ? Array.from(labels).join(', ') : null;
+  };
+
+  // Lọc xe kinh doanh (biển vàng), theo màu xe, nhóm logo và tìm theo biển số đọc được trên thiết bị
+  const normalizedQuery = normalizePlateText(plateQuery);
+  const filteredHistory = history.filter(item =>
+    (!showCommercialOnly ||
+      item.vehicles.some(vehicle => vehicle.licensePlate?.plateCategory === 'commercial')) &&
+    (!colorFilter ||
+      item.vehicles.some(vehicle => vehicle.color?.colorId === colorFilter)) &&
+    (!activeLogoCluster ||
+      activeLogoCluster.members.some(member => member.resultId === item.id)) &&
+    (!normalizedQuery ||
+      item.vehicles.some(vehicle =>
+        normalizePlateText(vehicle.licensePlate?.ocr?.plateText || '').includes(normalizedQuery)
+      ))
+  );
+
+  // Các màu xe có trong lịch sử, lọc theo mã màu nên không phụ thuộc tên hiển thị
+  const historyColors = new Map<string, string>();
+  history.forEach(item => item.vehicles.forEach(vehicle => {
+    if (vehicle.color) historyColors.set(vehicle.color.colorId, vehicle.color.name);
+  }));
+
+  const getPlateLabel = (item: VehicleDetectionResult): string | null => {
+    const plateText = item.vehicles[0]?.licensePlate?.ocr?.plateText;
+    if (!plateText) return null;
+    return parsePlateText(plateText)?.formatted || plateText;
+  };
+
+  // Nhãn áp dụng cho mọi xe có logo giống nhóm, kể cả xe chụp sau này
+  const handleSaveLogoLabel = useCallback(async () => {
+    if (!activeLogoCluster) return;
+    setLogoLabels(await logoClusterService.setClusterLabel(activeLogoCluster, logoLabelDraft, allLogoClusters));
+  }, [activeLogoCluster, allLogoClusters, logoLabelDraft]);
+
   // Handle history item selection
   const handleSelectHistoryItem = useCallback((item: VehicleDetectionResult) => {
     setDetectionResult(item);
@@ -172,6 +246,95 @@ const MainApp: React.FC = () => {
                 </TouchableOpacity>
               )}
             </View>
+            {history.length > 0 && (
+              <View style={styles.historyFilters}>
+                <TextInput
+                  style={styles.plateSearchInput}
+                  value={plateQuery}
+                  onChangeText={setPlateQuery}
+                  placeholder="Tìm biển số"
+                  placeholderTextColor="#999"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity
+                  style={[styles.filterChip, showCommercialOnly && styles.filterChipActive]}
+                  onPress={() => setShowCommercialOnly(prev => !prev)}
+                >
+                  <Text style={[styles.filterChipText, showCommercialOnly && styles.filterChipTextActive]}>
+                    🟨 Chỉ xe kinh doanh
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {historyColors.size > 1 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.colorFilters}
+                contentContainerStyle={styles.colorFiltersContent}
+              >
+                {Array.from(historyColors.entries()).map(([colorId, storedName]) => {
+                  const isActive = colorFilter === colorId;
+                  return (
+                    <TouchableOpacity
+                      key={colorId}
+                      style={[styles.filterChip, styles.colorFilterChip, isActive && styles.filterChipActive]}
+                      onPress={() => setColorFilter(isActive ? null : colorId)}
+                    >
+                      <View style={[
+                        styles.colorFilterDot,
+                        { backgroundColor: colorTaxonomyService.getColor(colorId)?.hex || '#ccc' }
+                      ]} />
+                      <Text style={[styles.filterChipText, isActive && styles.filterChipTextActive]}>
+                        {colorTaxonomyService.getDisplayName(colorId, storedName)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+            {logoClusters.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.colorFilters}
+                contentContainerStyle={styles.colorFiltersContent}
+              >
+                {logoClusters.map((cluster, index) => {
+                  const isActive = activeLogoCluster?.id === cluster.id;
+                  return (
+                    <TouchableOpacity
+                      key={cluster.id}
+                      style={[styles.filterChip, isActive && styles.filterChipActive]}
+                      onPress={() => {
+                        setLogoFilter(isActive ? null : cluster.id);
+                        setLogoLabelDraft(cluster.label || '');
+                      }}
+                    >
+                      <Text style={[styles.filterChipText, isActive && styles.filterChipTextActive]}>
+                        🏷️ {cluster.label || `Logo ${index + 1}`} ({cluster.members.length})
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+            {activeLogoCluster && (
+              <View style={styles.historyFilters}>
+                <TextInput
+                  style={styles.plateSearchInput}
+                  value={logoLabelDraft}
+                  onChangeText={setLogoLabelDraft}
+                  placeholder="Tên nhóm logo (VD: Toyota)"
+                  placeholderTextColor="#999"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity style={[styles.filterChip, styles.filterChipActive]} onPress={handleSaveLogoLabel}>
+                  <Text style={[styles.filterChipText, styles.filterChipTextActive]}>Lưu nhãn</Text>
+                </TouchableOpacity>
+              </View>
+            )}
             {history.length === 0 ? (
               <View style={styles.emptyHistory}>
                 <Text style={styles.emptyIcon}>📷</Text>
@@ -180,7 +343,7 @@ const MainApp: React.FC = () => {
               </View>
             ) : (
               <View style={styles.historyList}>
-                {history.map((item, index) => (
+                {filteredHistory.map((item, index) => (
                   <TouchableOpacity
                     key={item.id}
                     style={styles.historyItem}
@@ -192,10 +355,19 @@ const MainApp: React.FC = () => {
                     ]} />
                     <View style={styles.historyItemInfo}>
                       <Text style={styles.historyItemTitle}>
-                        {item.vehicleRegion?.type === 'front' ? 'Đầu xe' : 'Đuôi xe'} - {item.vehicleColor?.name || 'N/A'}
+                        {item.vehicleRegion ? VEHICLE_ORIENTATION_NAMES[item.vehicleRegion.type] : 'Xe'} - {item.vehicleColor
+                          ? colorTaxonomyService.getDisplayName(item.vehicleColor.colorId, item.vehicleColor.name)
+                          : 'N/A'}
+                        {item.vehicles.length > 1 ? ` (+${item.vehicles.length - 1} xe)` : ''}
                       </Text>
                       <Text style={styles.historyItemSubtitle}>
-                        {new Date(item.timestamp).toLocaleString('vi-VN')}
+                        {[
+                          getPlateLabel(item),
+                          getLogoLabel(item),
+                          new Date(item.timestamp).toLocaleString('vi-VN'),
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
                       </Text>
                     </View>
                     <View style={styles.historyItemStatus}>
@@ -322,6 +494,58 @@ const styles = StyleSheet.create({
     color: '#FF3B30',
     fontSize: 14,
   },
+  historyFilters: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+  plateSearchInput: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    fontSize: 13,
+    color: '#333',
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e0e0',
+  },
+  filterChipActive: {
+    backgroundColor: '#007AFF',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  colorFilters: {
+    flexGrow: 0,
+    paddingTop: 8,
+  },
+  colorFiltersContent: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  colorFilterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  colorFilterDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 6,
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
   emptyHistory: {
     flex: 1,
     justifyContent: 'center',
@@ -9,7 +9,23 @@ import {
   Dimensions,
   Alert,
 } from 'react-native';
-import { VehicleDetectionResult, BoundingBox } from '../types/detection';
+import {
+  VehicleDetectionResult,
+  DetectedVehicle,
+  BoundingBox,
+  PlateOcrResult,
+  DetectionSource,
+  DetectorComparison,
+  PLATE_CATEGORIES,
+  VEHICLE_CLASS_NAMES,
+  VEHICLE_ORIENTATION_NAMES,
+  VEHICLE_PROFILE_NAMES,
+  ENHANCEMENT_STEP_NAMES,
+  WHITE_BALANCE_REFERENCE_NAMES,
+  LOGO_CUE_NAMES,
+} from '../types/detection';
+import { colorTaxonomyService } from '../services';
+import { validatePlateText } from '../utils/plateText';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -33,6 +49,7 @@ export const DetectionResultScreen: React.FC<DetectionResultScreenProps> = ({
   const scaleY = imageHeight / result.imageHeight;
 
   const renderBoundingBox = (
+    key: string,
     bbox: BoundingBox | undefined,
     color: string,
     label: string,
@@ -42,7 +59,7 @@ export const DetectionResultScreen: React.FC<DetectionResultScreenProps> = ({
 
     return (
       <View
-        key={label}
+        key={key}
         style={[
           styles.boundingBox,
           {
@@ -63,11 +80,334 @@ export const DetectionResultScreen: React.FC<DetectionResultScreenProps> = ({
     );
   };
 
+  const hasMultipleVehicles = result.vehicles.length > 1;
+
+  const renderVehicleBoxes = (vehicle: DetectedVehicle, index: number) => {
+    const prefix = hasMultipleVehicles ? `Xe ${index + 1} · ` : '';
+
+    return (
+      <React.Fragment key={vehicle.id}>
+        {renderBoundingBox(
+          `${vehicle.id}-region`,
+          vehicle.region?.bbox,
+          '#007AFF',
+          `${prefix}${vehicle.region ? VEHICLE_ORIENTATION_NAMES[vehicle.region.type] : 'Xe'}`,
+          vehicle.region?.confidence
+        )}
+        {vehicle.licensePlateCandidates.map((plate, plateIndex) =>
+          renderBoundingBox(
+            `${vehicle.id}-plate-${plateIndex}`,
+            plate.bbox,
+            plateIndex === 0 ? '#34C759' : '#8E8E93',
+            plateIndex === 0 ? `${prefix}Biển số` : `${prefix}Biển số #${plateIndex + 1}`,
+            plate.confidence
+          )
+        )}
+        {vehicle.licensePlate?.characters?.map((character, characterIndex) => (
+          <View
+            key={`${vehicle.id}-char-${characterIndex}`}
+            style={[
+              styles.characterBox,
+              {
+                left: character.bbox.x * scaleX,
+                top: character.bbox.y * scaleY,
+                width: character.bbox.width * scaleX,
+                height: character.bbox.height * scaleY,
+              },
+            ]}
+          />
+        ))}
+        {renderBoundingBox(
+          `${vehicle.id}-logo`,
+          vehicle.logoRegion?.bbox,
+          '#FF9500',
+          `${prefix}Logo`,
+          vehicle.logoRegion?.confidence
+        )}
+      </React.Fragment>
+    );
+  };
+
+  const renderSource = (source?: DetectionSource) =>
+    source ? (
+      <Text style={styles.sourceText}>
+        Nguồn: {source.strategy} v{source.version}
+      </Text>
+    ) : null;
+
+  const describeComparison = (comparison: DetectorComparison): string => {
+    const { output } = comparison;
+    if (Array.isArray(output)) {
+      const best = output[0];
+      return best
+        ? `${output.length} vùng, tốt nhất ${(best.confidence * 100).toFixed(0)}%`
+        : 'Không tìm thấy';
+    }
+    if (!output) return 'Không tìm thấy';
+    return 'name' in output
+      ? `${output.name} (${(output.confidence * 100).toFixed(0)}%)`
+      : `${(output.confidence * 100).toFixed(0)}%`;
+  };
+
+  const STAGE_LABELS: Record<DetectorComparison['stage'], string> = {
+    vehicle: 'Vùng xe',
+    plate: 'Biển số',
+    logo: 'Logo',
+    color: 'Màu xe',
+  };
+
+  const renderPlateReading = (ocr: PlateOcrResult) => {
+    const validation = validatePlateText(ocr.plateText);
+    const suggestion = validation.suggestions[0];
+
+    return (
+      <View style={styles.ocrContainer}>
+        <Text style={styles.ocrText}>{validation.plate?.formatted || ocr.plateText}</Text>
+        {validation.isValid && validation.plate?.provinceName && (
+          <Text style={styles.detailText}>Tỉnh/thành: {validation.plate.provinceName}</Text>
+        )}
+        {!validation.isValid && (
+          <Text style={styles.detailText}>
+            ⚠️ {validation.errors[0]}
+            {suggestion ? ` · Có thể là: ${suggestion.formatted}` : ''}
+          </Text>
+        )}
+        <Text style={styles.detailText}>
+          Đọc trên thiết bị: {(ocr.confidence * 100).toFixed(0)}%
+          {' · Ký tự chưa chắc: '}
+          {ocr.characters.filter(c => c.confidence < 0.6).length}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderVehicleDetails = (vehicle: DetectedVehicle, index: number) => (
+    <View key={vehicle.id}>
+      {hasMultipleVehicles && (
+        <Text style={styles.vehicleHeading}>Xe {index + 1}</Text>
+      )}
+
+      {/* Vehicle Region */}
+      <View style={styles.detailCard}>
+        <View style={styles.detailHeader}>
+          <View style={[styles.detailDot, { backgroundColor: '#007AFF' }]} />
+          <Text style={styles.detailTitle}>Vùng xe</Text>
+          <View style={[
+            styles.statusBadge,
+            { backgroundColor: vehicle.region ? '#34C759' : '#FF3B30' }
+          ]}>
+            <Text style={styles.statusBadgeText}>
+              {vehicle.region ? 'Phát hiện' : 'Không tìm thấy'}
+            </Text>
+          </View>
+        </View>
+        {vehicle.region && (
+          <View style={styles.detailContent}>
+            <Text style={styles.detailText}>
+              Loại: {VEHICLE_ORIENTATION_NAMES[vehicle.region.type]}
+              {vehicle.region.orientationConfidence !== undefined &&
+                ` (${(vehicle.region.orientationConfidence * 100).toFixed(0)}%)`}
+            </Text>
+            {vehicle.region.vehicleClass && (
+              <Text style={styles.detailText}>
+                Phương tiện: {VEHICLE_CLASS_NAMES[vehicle.region.vehicleClass]}
+              </Text>
+            )}
+            <Text style={styles.detailText}>
+              Hồ sơ phát hiện: {VEHICLE_PROFILE_NAMES[vehicle.profile]}
+            </Text>
+            <Text style={styles.detailText}>
+              Độ tin cậy: {(vehicle.region.confidence * 100).toFixed(1)}%
+            </Text>
+            {renderSource(vehicle.region.source)}
+            <Text style={styles.detailText}>
+              Vị trí: ({Math.round(vehicle.region.bbox.x)}, {Math.round(vehicle.region.bbox.y)})
+            </Text>
+            <Text style={styles.detailText}>
+              Kích thước: {Math.round(vehicle.region.bbox.width)}x{Math.round(vehicle.region.bbox.height)}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* License Plate */}
+      <View style={styles.detailCard}>
+        <View style={styles.detailHeader}>
+          <View style={[styles.detailDot, { backgroundColor: '#34C759' }]} />
+          <Text style={styles.detailTitle}>Biển số xe</Text>
+          <View style={[
+            styles.statusBadge,
+            { backgroundColor: vehicle.licensePlate ? '#34C759' : '#FF3B30' }
+          ]}>
+            <Text style={styles.statusBadgeText}>
+              {vehicle.licensePlate ? 'Phát hiện' : 'Không tìm thấy'}
+            </Text>
+          </View>
+        </View>
+        {vehicle.licensePlate && (
+          <View style={styles.detailContent}>
+            {vehicle.licensePlate.rectifiedImageBase64 && (
+              <Image
+                source={{ uri: `data:image/jpeg;base64,${vehicle.licensePlate.rectifiedImageBase64}` }}
+                style={[
+                  styles.rectifiedPlate,
+                  { aspectRatio: vehicle.licensePlate.layout === 'two-row' ? 1.5 : 4.6 },
+                ]}
+                resizeMode="contain"
+              />
+            )}
+            <Text style={styles.detailText}>
+              Kiểu biển: {vehicle.licensePlate.layout === 'two-row' ? 'Biển vuông (2 dòng)' : 'Biển dài (1 dòng)'}
+            </Text>
+            {vehicle.licensePlate.plateColors && (
+              <View style={styles.plateCategoryRow}>
+                <View style={[
+                  styles.plateSwatch,
+                  { backgroundColor: vehicle.licensePlate.plateColors.background }
+                ]}>
+                  <Text style={[styles.plateSwatchText, { color: vehicle.licensePlate.plateColors.text }]}>
+                    AB
+                  </Text>
+                </View>
+                <Text style={styles.detailText}>
+                  Loại xe: {PLATE_CATEGORIES[vehicle.licensePlate.plateColors.category].name} ({(vehicle.licensePlate.plateColors.confidence * 100).toFixed(0)}%)
+                </Text>
+              </View>
+            )}
+            {vehicle.licensePlate.characters && (
+              <Text style={styles.detailText}>
+                Số ký tự: {vehicle.licensePlate.characters.length}
+                {vehicle.licensePlate.layout === 'two-row' &&
+                  ` (dòng trên ${vehicle.licensePlate.characters.filter(c => c.row === 0).length}, dòng dưới ${vehicle.licensePlate.characters.filter(c => c.row === 1).length})`}
+                {(vehicle.licensePlate.characters.length < 7 || vehicle.licensePlate.characters.length > 9) && ' ⚠️'}
+              </Text>
+            )}
+            <Text style={styles.detailText}>
+              Độ tin cậy: {(vehicle.licensePlate.confidence * 100).toFixed(1)}%
+            </Text>
+            {renderSource(vehicle.licensePlate.source)}
+            <Text style={styles.detailText}>
+              Vị trí: ({Math.round(vehicle.licensePlate.bbox.x)}, {Math.round(vehicle.licensePlate.bbox.y)})
+            </Text>
+            <Text style={styles.detailText}>
+              Kích thước: {Math.round(vehicle.licensePlate.bbox.width)}x{Math.round(vehicle.licensePlate.bbox.height)}
+            </Text>
+            {vehicle.licensePlateCandidates.length > 1 && (
+              <View style={styles.candidateList}>
+                <Text style={styles.detailText}>Các ứng viên khác:</Text>
+                {vehicle.licensePlateCandidates.slice(1).map((plate, plateIndex) => (
+                  <Text key={`candidate-${plateIndex}`} style={styles.candidateText}>
+                    #{plateIndex + 2}: ({Math.round(plate.bbox.x)}, {Math.round(plate.bbox.y)}) {Math.round(plate.bbox.width)}x{Math.round(plate.bbox.height)} - {(plate.confidence * 100).toFixed(1)}%
+                  </Text>
+                ))}
+              </View>
+            )}
+            {vehicle.licensePlate.ocr ? (
+              renderPlateReading(vehicle.licensePlate.ocr)
+            ) : (
+              <Text style={styles.detailHint}>
+                * Cần gửi lên Cloud để đọc nội dung biển số
+              </Text>
+            )}
+          </View>
+        )}
+      </View>
+
+      {/* Logo */}
+      <View style={styles.detailCard}>
+        <View style={styles.detailHeader}>
+          <View style={[styles.detailDot, { backgroundColor: '#FF9500' }]} />
+          <Text style={styles.detailTitle}>Logo xe</Text>
+          <View style={[
+            styles.statusBadge,
+            { backgroundColor: vehicle.logoRegion ? '#FF9500' : '#999' }
+          ]}>
+            <Text style={styles.statusBadgeText}>
+              {vehicle.logoRegion ? 'Phát hiện' : 'Tùy chọn'}
+            </Text>
+          </View>
+        </View>
+        {vehicle.logoRegion && (
+          <View style={styles.detailContent}>
+            <Text style={styles.detailText}>
+              Độ tin cậy: {(vehicle.logoRegion.confidence * 100).toFixed(1)}%
+            </Text>
+            {renderSource(vehicle.logoRegion.source)}
+            {vehicle.logoRegion.cue && (
+              <Text style={styles.detailText}>
+                Định vị theo: {LOGO_CUE_NAMES[vehicle.logoRegion.cue]}
+              </Text>
+            )}
+            <Text style={styles.detailText}>
+              Vị trí: ({Math.round(vehicle.logoRegion.bbox.x)}, {Math.round(vehicle.logoRegion.bbox.y)})
+            </Text>
+            <Text style={styles.detailHint}>
+              * Cần gửi lên Cloud để nhận diện hãng xe
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* Vehicle Color */}
+      <View style={styles.detailCard}>
+        <View style={styles.detailHeader}>
+          <View style={[
+            styles.colorPreview,
+            { backgroundColor: vehicle.color?.dominant || '#ccc' }
+          ]} />
+          <Text style={styles.detailTitle}>Màu xe</Text>
+          <View style={[styles.statusBadge, { backgroundColor: '#007AFF' }]}>
+            <Text style={styles.statusBadgeText}>
+              {vehicle.color
+                ? colorTaxonomyService.getDisplayName(vehicle.color.colorId, vehicle.color.name)
+                : 'Chưa xác định'}
+              {vehicle.color?.isTwoTone ? ' · Hai màu' : ''}
+            </Text>
+          </View>
+        </View>
+        {vehicle.color && (
+          <View style={styles.detailContent}>
+            <Text style={styles.detailText}>
+              Mã màu: {vehicle.color.dominant}
+            </Text>
+            {vehicle.color.palette?.map(paletteColor => (
+              <View key={paletteColor.hex} style={styles.paletteRow}>
+                <View style={[styles.paletteSwatch, { backgroundColor: paletteColor.hex }]} />
+                <Text style={styles.detailText}>
+                  {colorTaxonomyService.getDisplayName(paletteColor.colorId, paletteColor.name)} {paletteColor.hex} · {(paletteColor.proportion * 100).toFixed(0)}%
+                </Text>
+              </View>
+            ))}
+            <Text style={styles.detailText}>
+              RGB: ({vehicle.color.rgb.r}, {vehicle.color.rgb.g}, {vehicle.color.rgb.b})
+            </Text>
+            <Text style={styles.detailText}>
+              Độ tin cậy: {(vehicle.color.confidence * 100).toFixed(1)}%
+            </Text>
+            {vehicle.color.whiteBalance && (
+              <Text style={styles.detailText}>
+                Cân bằng trắng: {WHITE_BALANCE_REFERENCE_NAMES[vehicle.color.whiteBalance.reference]}
+              </Text>
+            )}
+            {renderSource(vehicle.color.source)}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+
+  // Lý do chưa gửi được cloud: lỗi chất lượng ảnh, nếu không có thì do độ tin cậy phát hiện thấp
+  const notReadyReasons = result.isReadyForCloud
+    ? []
+    : result.quality.issues.length > 0
+      ? result.quality.issues.map(issue => issue.message)
+      : ['Chưa tìm thấy xe hoặc biển số đủ tin cậy'];
+
   const handleUpload = () => {
     if (!result.isReadyForCloud) {
       Alert.alert(
         'Dữ liệu chưa sẵn sàng',
-        'Ảnh không đủ thông tin để xử lý. Vui lòng chụp lại với độ rõ nét tốt hơn.'
+        `${notReadyReasons.join('\n')}\n\nVui lòng chụp lại.`
       );
       return;
     }
@@ -82,6 +422,13 @@ export const DetectionResultScreen: React.FC<DetectionResultScreenProps> = ({
         <Text style={styles.subtitle}>
           Xử lý trong {result.processingTimeMs}ms
         </Text>
+        {result.enhancement && (
+          <Text style={styles.subtitle}>
+            🌙 {result.enhancement.steps.map(step => ENHANCEMENT_STEP_NAMES[step]).join(', ')}
+            {' · '}độ sáng {(result.enhancement.brightnessBefore * 100).toFixed(0)}%
+            {' → '}{(result.enhancement.brightnessAfter * 100).toFixed(0)}%
+          </Text>
+        )}
       </View>
 
       {/* Image with bounding boxes */}
@@ -94,153 +441,35 @@ export const DetectionResultScreen: React.FC<DetectionResultScreenProps> = ({
         
         {/* Bounding boxes overlay */}
         <View style={[styles.boxesOverlay, { height: imageHeight }]}>
-          {renderBoundingBox(
-            result.vehicleRegion?.bbox,
-            '#007AFF',
-            result.vehicleRegion?.type === 'front' ? 'Đầu xe' : 'Đuôi xe',
-            result.vehicleRegion?.confidence
-          )}
-          {renderBoundingBox(
-            result.licensePlate?.bbox,
-            '#34C759',
-            'Biển số',
-            result.licensePlate?.confidence
-          )}
-          {renderBoundingBox(
-            result.logoRegion?.bbox,
-            '#FF9500',
-            'Logo',
-            result.logoRegion?.confidence
-          )}
+          {result.vehicles.map(renderVehicleBoxes)}
         </View>
       </View>
 
       {/* Detection details */}
       <View style={styles.detailsSection}>
-        <Text style={styles.sectionTitle}>Chi tiết phát hiện</Text>
-
-        {/* Vehicle Region */}
-        <View style={styles.detailCard}>
-          <View style={styles.detailHeader}>
-            <View style={[styles.detailDot, { backgroundColor: '#007AFF' }]} />
-            <Text style={styles.detailTitle}>Vùng xe</Text>
-            <View style={[
-              styles.statusBadge,
-              { backgroundColor: result.vehicleRegion ? '#34C759' : '#FF3B30' }
-            ]}>
-              <Text style={styles.statusBadgeText}>
-                {result.vehicleRegion ? 'Phát hiện' : 'Không tìm thấy'}
-              </Text>
-            </View>
-          </View>
-          {result.vehicleRegion && (
-            <View style={styles.detailContent}>
-              <Text style={styles.detailText}>
-                Loại: {result.vehicleRegion.type === 'front' ? 'Đầu xe' : 'Đuôi xe'}
-              </Text>
-              <Text style={styles.detailText}>
-                Độ tin cậy: {(result.vehicleRegion.confidence * 100).toFixed(1)}%
-              </Text>
-              <Text style={styles.detailText}>
-                Vị trí: ({Math.round(result.vehicleRegion.bbox.x)}, {Math.round(result.vehicleRegion.bbox.y)})
-              </Text>
-              <Text style={styles.detailText}>
-                Kích thước: {Math.round(result.vehicleRegion.bbox.width)}x{Math.round(result.vehicleRegion.bbox.height)}
-              </Text>
-            </View>
-          )}
-        </View>
-
-        {/* License Plate */}
-        <View style={styles.detailCard}>
-          <View style={styles.detailHeader}>
-            <View style={[styles.detailDot, { backgroundColor: '#34C759' }]} />
-            <Text style={styles.detailTitle}>Biển số xe</Text>
-            <View style={[
-              styles.statusBadge,
-              { backgroundColor: result.licensePlate ? '#34C759' : '#FF3B30' }
-            ]}>
-              <Text style={styles.statusBadgeText}>
-                {result.licensePlate ? 'Phát hiện' : 'Không tìm thấy'}
-              </Text>
-            </View>
-          </View>
-          {result.licensePlate && (
-            <View style={styles.detailContent}>
-              <Text style={styles.detailText}>
-                Độ tin cậy: {(result.licensePlate.confidence * 100).toFixed(1)}%
-              </Text>
-              <Text style={styles.detailText}>
-                Vị trí: ({Math.round(result.licensePlate.bbox.x)}, {Math.round(result.licensePlate.bbox.y)})
-              </Text>
-              <Text style={styles.detailText}>
-                Kích thước: {Math.round(result.licensePlate.bbox.width)}x{Math.round(result.licensePlate.bbox.height)}
-              </Text>
-              <Text style={styles.detailHint}>
-                * Cần gửi lên Cloud để đọc nội dung biển số
-              </Text>
-            </View>
-          )}
-        </View>
+        <Text style={styles.sectionTitle}>
+          Chi tiết phát hiện{hasMultipleVehicles ? ` (${result.vehicles.length} xe)` : ''}
+        </Text>
 
-        {/* Logo */}
-        <View style={styles.detailCard}>
-          <View style={styles.detailHeader}>
-            <View style={[styles.detailDot, { backgroundColor: '#FF9500' }]} />
-            <Text style={styles.detailTitle}>Logo xe</Text>
-            <View style={[
-              styles.statusBadge,
-              { backgroundColor: result.logoRegion ? '#FF9500' : '#999' }
-            ]}>
-              <Text style={styles.statusBadgeText}>
-                {result.logoRegion ? 'Phát hiện' : 'Tùy chọn'}
-              </Text>
-            </View>
-          </View>
-          {result.logoRegion && (
-            <View style={styles.detailContent}>
-              <Text style={styles.detailText}>
-                Độ tin cậy: {(result.logoRegion.confidence * 100).toFixed(1)}%
-              </Text>
-              <Text style={styles.detailText}>
-                Vị trí: ({Math.round(result.logoRegion.bbox.x)}, {Math.round(result.logoRegion.bbox.y)})
-              </Text>
-              <Text style={styles.detailHint}>
-                * Cần gửi lên Cloud để nhận diện hãng xe
-              </Text>
-            </View>
-          )}
-        </View>
+        {result.vehicles.map(renderVehicleDetails)}
+      </View>
 
-        {/* Vehicle Color */}
-        <View style={styles.detailCard}>
-          <View style={styles.detailHeader}>
-            <View style={[
-              styles.colorPreview,
-              { backgroundColor: result.vehicleColor?.dominant || '#ccc' }
-            ]} />
-            <Text style={styles.detailTitle}>Màu xe</Text>
-            <View style={[styles.statusBadge, { backgroundColor: '#007AFF' }]}>
-              <Text style={styles.statusBadgeText}>
-                {result.vehicleColor?.name || 'Chưa xác định'}
+      {/* Detector comparison */}
+      {result.detectorComparisons && result.detectorComparisons.length > 0 && (
+        <View style={styles.detailsSection}>
+          <Text style={styles.sectionTitle}>So sánh chiến lược</Text>
+          <View style={styles.detailCard}>
+            {result.detectorComparisons.map((comparison, comparisonIndex) => (
+              <Text key={`comparison-${comparisonIndex}`} style={styles.detailText}>
+                {STAGE_LABELS[comparison.stage]}
+                {comparison.vehicleId && hasMultipleVehicles ? ` (${comparison.vehicleId})` : ''}
+                {' · '}{comparison.source.strategy} v{comparison.source.version}
+                {' · '}{describeComparison(comparison)} · {comparison.durationMs}ms
               </Text>
-            </View>
+            ))}
           </View>
-          {result.vehicleColor && (
-            <View style={styles.detailContent}>
-              <Text style={styles.detailText}>
-                Mã màu: {result.vehicleColor.dominant}
-              </Text>
-              <Text style={styles.detailText}>
-                RGB: ({result.vehicleColor.rgb.r}, {result.vehicleColor.rgb.g}, {result.vehicleColor.rgb.b})
-              </Text>
-              <Text style={styles.detailText}>
-                Độ tin cậy: {(result.vehicleColor.confidence * 100).toFixed(1)}%
-              </Text>
-            </View>
-          )}
         </View>
-      </View>
+      )}
 
       {/* Cloud status */}
       <View style={styles.cloudSection}>
@@ -262,11 +491,23 @@ export const DetectionResultScreen: React.FC<DetectionResultScreenProps> = ({
                result.cloudUploadStatus === 'failed' ? 'Tải thất bại' : 'Chờ xử lý'}
             </Text>
           </View>
-          <Text style={styles.cloudHint}>
-            {result.isReadyForCloud 
-              ? '✅ Dữ liệu sẵn sàng để gửi lên Cloud xử lý chi tiết'
-              : '⚠️ Dữ liệu chưa đủ chất lượng, nên chụp lại'
-            }
+          {result.isReadyForCloud ? (
+            <Text style={styles.cloudHint}>
+              ✅ Dữ liệu sẵn sàng để gửi lên Cloud xử lý chi tiết
+            </Text>
+          ) : (
+            <>
+              <Text style={styles.cloudHint}>⚠️ Nên chụp lại:</Text>
+              {notReadyReasons.map(reason => (
+                <Text key={reason} style={styles.qualityIssueText}>• {reason}</Text>
+              ))}
+            </>
+          )}
+          <Text style={styles.qualityMetricsText}>
+            Độ nét: {Math.round(result.quality.metrics.sharpness)}
+            {' · '}Độ sáng: {(result.quality.metrics.brightness * 100).toFixed(0)}%
+            {result.quality.metrics.platePixelHeight !== null &&
+              ` · Biển số cao ${Math.round(result.quality.metrics.platePixelHeight)}px`}
           </Text>
         </View>
       </View>
@@ -337,6 +578,11 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderRadius: 4,
   },
+  characterBox: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderColor: '#FFCC00',
+  },
   bboxLabel: {
     position: 'absolute',
     top: -20,
@@ -359,6 +605,13 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 12,
   },
+  vehicleHeading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginTop: 6,
+    marginBottom: 8,
+  },
   detailCard: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -388,6 +641,18 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#ddd',
   },
+  paletteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  paletteSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 3,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
   detailTitle: {
     flex: 1,
     fontSize: 15,
@@ -413,6 +678,53 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 4,
   },
+  rectifiedPlate: {
+    height: 48,
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+    borderRadius: 4,
+    backgroundColor: '#eee',
+  },
+  plateCategoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  plateSwatch: {
+    paddingHorizontal: 4,
+    borderRadius: 3,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 6,
+    marginBottom: 4,
+  },
+  plateSwatchText: {
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  candidateList: {
+    marginTop: 6,
+  },
+  candidateText: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 2,
+    paddingLeft: 8,
+  },
+  sourceText: {
+    fontSize: 11,
+    color: '#999',
+    marginBottom: 4,
+  },
+  ocrContainer: {
+    marginTop: 6,
+  },
+  ocrText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    letterSpacing: 1,
+    marginBottom: 2,
+  },
   detailHint: {
     fontSize: 11,
     color: '#999',
@@ -453,6 +765,16 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#666',
   },
+  qualityIssueText: {
+    fontSize: 13,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
+  qualityMetricsText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
   actionsContainer: {
     flexDirection: 'row',
     paddingHorizontal: 16,
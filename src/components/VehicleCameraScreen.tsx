@@ -9,7 +9,7 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
-import { VehicleDetectionResult, BoundingBox } from '../types/detection';
+import { VehicleDetectionResult, BoundingBox, VEHICLE_CLASS_NAMES, VEHICLE_ORIENTATION_SHORT_NAMES } from '../types/detection';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const CAMERA_HEIGHT = SCREEN_HEIGHT * 0.7;
@@ -130,37 +130,41 @@ export const VehicleCameraScreen: React.FC<VehicleCameraScreenProps> = ({
               Đặt đầu/đít xe trong khung hình
             </Text>
 
-            {/* Detection boxes */}
-            {detectionResult && (
-              <>
-                {/* Vehicle region - Màu xanh dương */}
-                {renderBoundingBox(
-                  detectionResult.vehicleRegion?.bbox,
-                  '#007AFF',
-                  `Xe (${detectionResult.vehicleRegion?.type === 'front' ? 'Đầu' : 'Đuôi'})`,
-                  scaleX,
-                  scaleY
-                )}
+            {/* Detection boxes - mỗi xe một bộ khung */}
+            {detectionResult?.vehicles.map((vehicle, index) => {
+              const vehicleNumber = detectionResult.vehicles.length > 1 ? ` ${index + 1}` : '';
 
-                {/* License plate - Màu xanh lá */}
-                {renderBoundingBox(
-                  detectionResult.licensePlate?.bbox,
-                  '#34C759',
-                  'Biển số',
-                  scaleX,
-                  scaleY
-                )}
+              return (
+                <React.Fragment key={vehicle.id}>
+                  {/* Vehicle region - Màu xanh dương */}
+                  {renderBoundingBox(
+                    vehicle.region?.bbox,
+                    '#007AFF',
+                    `${vehicle.region?.vehicleClass ? VEHICLE_CLASS_NAMES[vehicle.region.vehicleClass] : 'Xe'}${vehicleNumber} (${vehicle.region ? VEHICLE_ORIENTATION_SHORT_NAMES[vehicle.region.type] : '?'})`,
+                    scaleX,
+                    scaleY
+                  )}
 
-                {/* Logo - Màu cam */}
-                {renderBoundingBox(
-                  detectionResult.logoRegion?.bbox,
-                  '#FF9500',
-                  'Logo',
-                  scaleX,
-                  scaleY
-                )}
-              </>
-            )}
+                  {/* License plate - Màu xanh lá */}
+                  {renderBoundingBox(
+                    vehicle.licensePlate?.bbox,
+                    '#34C759',
+                    `Biển số${vehicleNumber}`,
+                    scaleX,
+                    scaleY
+                  )}
+
+                  {/* Logo - Màu cam */}
+                  {renderBoundingBox(
+                    vehicle.logoRegion?.bbox,
+                    '#FF9500',
+                    `Logo${vehicleNumber}`,
+                    scaleX,
+                    scaleY
+                  )}
+                </React.Fragment>
+              );
+            })}
 
             {/* Processing indicator */}
             {isProcessing && (
@@ -191,7 +195,9 @@ export const VehicleCameraScreen: React.FC<VehicleCameraScreenProps> = ({
             <View style={styles.infoRow}>
               <View style={styles.statusItem}>
                 <View style={[styles.statusDot, { backgroundColor: detectionResult.vehicleRegion ? '#34C759' : '#FF3B30' }]} />
-                <Text style={styles.statusText}>Vùng xe</Text>
+                <Text style={styles.statusText}>
+                  Vùng xe{detectionResult.vehicles.length > 1 ? ` (${detectionResult.vehicles.length})` : ''}
+                </Text>
               </View>
               <View style={styles.statusItem}>
                 <View style={[styles.statusDot, { backgroundColor: detectionResult.licensePlate ? '#34C759' : '#FF3B30' }]} />
@@ -1,4 +1,5 @@
 import { CloudUploadPayload } from '../types/detection';
+import { validatePlateText } from '../utils/plateText';
 
 export interface CloudConfig {
   endpoint: string;
@@ -6,6 +7,12 @@ export interface CloudConfig {
   timeout?: number;
 }
 
+export interface CloudJobStatus {
+  status: 'processing' | 'completed' | 'failed';
+  result?: any;
+  error?: string;
+}
+
 /**
  * Service để upload dữ liệu đã xử lý lên cloud
  */
@@ -31,13 +38,15 @@ class CloudUploadService {
       console.log('Uploading to cloud:', this.config.endpoint);
       console.log('Payload summary:', {
         detectionId: payload.detectionId,
+        vehicleCount: payload.boundingBoxes.vehicles.length,
         hasBoundingBoxes: {
           vehicle: !!payload.boundingBoxes.vehicle,
           licensePlate: !!payload.boundingBoxes.licensePlate,
+          licensePlateCandidates: payload.boundingBoxes.licensePlateCandidates?.length || 0,
           logo: !!payload.boundingBoxes.logo,
         },
         vehicleType: payload.vehicleInfo.type,
-        vehicleColor: payload.vehicleInfo.color?.name,
+        vehicleColor: payload.vehicleInfo.color?.colorId,
         imageSize: `${payload.metadata.imageWidth}x${payload.metadata.imageHeight}`,
       });
 
@@ -123,11 +132,7 @@ class CloudUploadService {
   /**
    * Kiểm tra trạng thái job trên cloud
    */
-  async checkJobStatus(jobId: string): Promise<{
-    status: 'processing' | 'completed' | 'failed';
-    result?: any;
-    error?: string;
-  }> {
+  async checkJobStatus(jobId: string): Promise<CloudJobStatus> {
     try {
       // TODO: Implement actual API call
       /*
@@ -141,11 +146,11 @@ class CloudUploadService {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      return await response.json();
+      return this.validateJobResult(await response.json());
       */
 
       // Simulated response
-      return {
+      return this.validateJobResult({
         status: 'completed',
         result: {
           licensePlateText: 'ABC-12345',
@@ -153,7 +158,7 @@ class CloudUploadService {
           vehicleModel: 'Unknown',
           confidence: 0.85,
         },
-      };
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
@@ -162,6 +167,18 @@ class CloudUploadService {
       };
     }
   }
+
+  /**
+   * Chuẩn hóa và kiểm tra biển số cloud trả về theo định dạng biển VN, kèm gợi ý sửa lỗi OCR
+   */
+  private validateJobResult(jobStatus: CloudJobStatus): CloudJobStatus {
+    const plateText = jobStatus.result?.licensePlateText;
+    if (typeof plateText !== 'string') return jobStatus;
+    return {
+      ...jobStatus,
+      result: { ...jobStatus.result, licensePlateValidation: validatePlateText(plateText) },
+    };
+  }
 }
 
 export const cloudUploadService = new CloudUploadService();
@@ -0,0 +1,172 @@
+import {
+  ColorTaxonomy,
+  ColorTaxonomyEntry,
+  DEFAULT_COLOR_TAXONOMY,
+} from '../types/detection';
+
+// Màu cách ranh giới tên từ mức này trở lên (theo % s/l) thì tên chắc chắn
+const COLOR_NAME_MARGIN = 10;
+// 1 độ hue tương đương HUE_MARGIN_SCALE % khi đo khoảng cách tới ranh giới
+const HUE_MARGIN_SCALE = 0.5;
+const COLOR_ID_PATTERN = /^[a-z0-9-]+$/;
+const HEX_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Service quản lý bảng màu đặt tên màu xe. Kết quả phát hiện lưu colorId ổn định,
+ * tên hiển thị tra từ bảng màu nên có thể đổi ngôn ngữ hoặc tải bảng màu khác lúc chạy
+ */
+class ColorTaxonomyService {
+  private taxonomy: ColorTaxonomy = DEFAULT_COLOR_TAXONOMY;
+
+  getTaxonomy(): ColorTaxonomy {
+    return this.taxonomy;
+  }
+
+  /**
+   * Dùng bảng màu mới. Trả về false và giữ bảng màu cũ nếu bảng màu không hợp lệ
+   */
+  setTaxonomy(taxonomy: ColorTaxonomy): boolean {
+    const error = this.validate(taxonomy);
+    if (error) {
+      console.error('Invalid color taxonomy:', error);
+      return false;
+    }
+    this.taxonomy = taxonomy;
+    console.log(`Color taxonomy ${taxonomy.version} loaded (${taxonomy.colors.length} colors)`);
+    return true;
+  }
+
+  /**
+   * Tải bảng màu dạng JSON từ server
+   */
+  async loadTaxonomy(url: string): Promise<boolean> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return this.setTaxonomy(await response.json());
+    } catch (error) {
+      console.error('Error loading color taxonomy:', error);
+      return false;
+    }
+  }
+
+  resetTaxonomy(): void {
+    this.taxonomy = DEFAULT_COLOR_TAXONOMY;
+  }
+
+  getColor(colorId: string): ColorTaxonomyEntry | undefined {
+    return this.taxonomy.colors.find(color => color.id === colorId);
+  }
+
+  /**
+   * Tên hiển thị của colorId; dùng fallback (VD: tên đã lưu cùng kết quả cũ) nếu bảng màu
+   * hiện tại không còn màu này
+   */
+  getDisplayName(colorId: string, fallback?: string): string {
+    return this.getColor(colorId)?.name || fallback || colorId;
+  }
+
+  /**
+   * Các màu cùng nhóm (VD: trắng/bạc/xám) không được tính là xe hai màu
+   */
+  isSameFamily(firstId: string, secondId: string): boolean {
+    const familyOf = (colorId: string) => this.getColor(colorId)?.family || colorId;
+    return familyOf(firstId) === familyOf(secondId);
+  }
+
+  /**
+   * Gán màu HSL (h theo độ, s/l theo %) vào bảng màu. certainty cho biết tên chắc chắn đến đâu:
+   * 0.5 ngay ranh giới giữa hai màu, tăng dần tới 1 khi cách xa từ COLOR_NAME_MARGIN trở lên
+   */
+  classify(h: number, s: number, l: number): { color: ColorTaxonomyEntry; certainty: number } {
+    const { colors } = this.taxonomy;
+    const distances = colors.map(color => this.signedDistance(color, h, s, l));
+
+    let index = distances.findIndex(distance => distance >= 0);
+    let margin: number;
+    if (index >= 0) {
+      // Trong vùng: khoảng cách tới biên vùng hoặc tới vùng ưu tiên hơn gần nhất
+      margin = distances[index];
+      for (let i = 0; i < index; i++) {
+        margin = Math.min(margin, -distances[i]);
+      }
+    } else {
+      // Ngoài mọi vùng: màu gần nhất, chắc chắn theo độ chênh với màu gần thứ hai
+      index = distances.indexOf(Math.max(...distances));
+      const runnerUp = Math.max(...distances.filter((_, i) => i !== index), -Infinity);
+      margin = (distances[index] - runnerUp) / 2;
+    }
+
+    return {
+      color: colors[index],
+      certainty: 0.5 + 0.5 * Math.max(0, Math.min(1, margin / COLOR_NAME_MARGIN)),
+    };
+  }
+
+  /**
+   * Khoảng cách có dấu từ màu tới biên vùng màu: dương khi nằm trong (tới biên gần nhất),
+   * âm khi nằm ngoài (tới vùng). Biên trùng giới hạn của không gian HSL không tính là ranh giới
+   */
+  private signedDistance(color: ColorTaxonomyEntry, h: number, s: number, l: number): number {
+    const axes = [
+      this.hueAxisDistance(color.range.h, h),
+      this.linearAxisDistance(color.range.s, s),
+      this.linearAxisDistance(color.range.l, l),
+    ];
+    const outside = axes.filter(distance => distance < 0);
+    if (outside.length === 0) return Math.min(...axes);
+    return -Math.sqrt(outside.reduce((sum, distance) => sum + distance * distance, 0));
+  }
+
+  private linearAxisDistance([min, max]: [number, number], value: number): number {
+    if (value < min) return value - min;
+    if (value > max) return max - value;
+    return Math.min(min > 0 ? value - min : Infinity, max < 100 ? max - value : Infinity);
+  }
+
+  private hueAxisDistance([from, to]: [number, number], hue: number): number {
+    const span = to >= from ? to - from : to + 360 - from;
+    if (span >= 360) return Infinity;
+
+    const arc = (a: number, b: number) => {
+      const distance = Math.abs(a - b) % 360;
+      return Math.min(distance, 360 - distance) * HUE_MARGIN_SCALE;
+    };
+    const offset = (hue - from + 360) % 360;
+    const margin = Math.min(arc(hue, from), arc(hue, to));
+    return offset <= span ? margin : -margin;
+  }
+
+  private validate(taxonomy: ColorTaxonomy): string | null {
+    if (!taxonomy || typeof taxonomy.version !== 'string' || !taxonomy.version) {
+      return 'missing version';
+    }
+    if (!Array.isArray(taxonomy.colors) || taxonomy.colors.length === 0) {
+      return 'no colors';
+    }
+
+    const ids = new Set<string>();
+    for (const color of taxonomy.colors) {
+      if (typeof color.id !== 'string' || !COLOR_ID_PATTERN.test(color.id)) return `invalid id "${color.id}"`;
+      if (ids.has(color.id)) return `duplicate id "${color.id}"`;
+      ids.add(color.id);
+      if (typeof color.name !== 'string' || !color.name) return `missing name for "${color.id}"`;
+      if (typeof color.hex !== 'string' || !HEX_PATTERN.test(color.hex)) return `invalid hex for "${color.id}"`;
+
+      const { h, s, l } = color.range || ({} as ColorTaxonomyEntry['range']);
+      const isRange = (range: unknown, max: number, ordered: boolean) =>
+        Array.isArray(range) && range.length === 2 &&
+        range.every(value => typeof value === 'number' && value >= 0 && value <= max) &&
+        (!ordered || range[0] <= range[1]);
+      if (!isRange(h, 360, false) || !isRange(s, 100, true) || !isRange(l, 100, true)) {
+        return `invalid range for "${color.id}"`;
+      }
+    }
+    return null;
+  }
+}
+
+export const colorTaxonomyService = new ColorTaxonomyService();
+export default colorTaxonomyService;
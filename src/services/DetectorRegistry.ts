@@ -0,0 +1,158 @@
+import * as tf from '@tensorflow/tfjs';
+import { ImageFeatures } from './ImageProcessingService';
+import {
+  BoundingBox,
+  ColorInfo,
+  DetectorStage,
+  LicensePlateRegion,
+  LogoRegion,
+  VehicleProfile,
+  VehicleRegion,
+} from '../types/detection';
+
+// Chiến lược mặc định, luôn có sẵn và dùng khi chiến lược được cấu hình không khởi tạo được
+export const DEFAULT_DETECTOR_NAME = 'edge-heuristic';
+// Chiến lược khởi tạo thất bại (VD: tải model khi mất mạng) chỉ được thử lại sau khoảng này,
+// để mỗi ảnh không phải chờ hết thời gian kết nối trước khi dùng chiến lược mặc định
+const INITIALIZE_RETRY_INTERVAL_MS = 60000;
+
+/**
+ * Dữ liệu đầu vào dùng chung cho mọi bước phát hiện của một ảnh
+ */
+export interface DetectionContext {
+  imageTensor: tf.Tensor3D;
+  features: ImageFeatures;
+}
+
+interface DetectorInfo {
+  readonly name: string;
+  readonly version: string;
+  // Tải model... Trả về false nếu chiến lược không dùng được trên thiết bị
+  initialize?(): Promise<boolean>;
+}
+
+export interface VehicleDetector extends DetectorInfo {
+  readonly stage: 'vehicle';
+  detectVehicles(context: DetectionContext, maxVehicles: number): Promise<VehicleRegion[]>;
+}
+
+export interface PlateDetector extends DetectorInfo {
+  readonly stage: 'plate';
+  detectPlates(
+    context: DetectionContext,
+    vehicleRegion: VehicleRegion | null,
+    profile: VehicleProfile,
+    maxCandidates: number
+  ): Promise<LicensePlateRegion[]>;
+}
+
+export interface LogoDetector extends DetectorInfo {
+  readonly stage: 'logo';
+  detectLogo(
+    context: DetectionContext,
+    vehicleRegion: VehicleRegion | null,
+    profile: VehicleProfile,
+    plate: LicensePlateRegion | null            // Biển số đã tìm thấy, cùng toạ độ với context
+  ): Promise<LogoRegion | null>;
+}
+
+/**
+ * Kết quả các bước trước giúp bước màu, cùng toạ độ với context.imageTensor
+ */
+export interface ColorHints {
+  excludedAreas: BoundingBox[];                          // Biển số, logo đã tìm thấy, không tính vào màu xe
+  whiteReference: { r: number; g: number; b: number } | null;  // Màu nền biển trắng đo được, để cân bằng trắng
+}
+
+export interface ColorDetector extends DetectorInfo {
+  readonly stage: 'color';
+  detectColor(
+    context: DetectionContext,
+    vehicleRegion: VehicleRegion | null,
+    profile: VehicleProfile,
+    hints: ColorHints
+  ): Promise<ColorInfo | null>;
+}
+
+export interface DetectorsByStage {
+  vehicle: VehicleDetector;
+  plate: PlateDetector;
+  logo: LogoDetector;
+  color: ColorDetector;
+}
+
+export type Detector = DetectorsByStage[DetectorStage];
+
+/**
+ * Danh sách chiến lược phát hiện theo từng bước, chọn theo tên trong ProcessingConfig
+ */
+class DetectorRegistry {
+  private detectors: { [S in DetectorStage]: Map<string, DetectorsByStage[S]> } = {
+    vehicle: new Map(),
+    plate: new Map(),
+    logo: new Map(),
+    color: new Map(),
+  };
+
+  // Mỗi chiến lược chỉ khởi tạo thành công một lần; lần thất bại được ghi lại thời điểm để thử lại sau
+  private initializations = new Map<Detector, Promise<boolean>>();
+  private failedAt = new Map<Detector, number>();
+
+  register(detector: Detector): void {
+    (this.detectors[detector.stage] as Map<string, Detector>).set(detector.name, detector);
+  }
+
+  list(stage: DetectorStage): string[] {
+    return Array.from(this.detectors[stage].keys());
+  }
+
+  /**
+   * Lấy chiến lược đã sẵn sàng. Trả về null nếu chưa đăng ký hoặc khởi tạo thất bại;
+   * chỉ khởi tạo lại khi đã qua INITIALIZE_RETRY_INTERVAL_MS hoặc sau khi gọi retry
+   */
+  async resolve<S extends DetectorStage>(stage: S, name: string): Promise<DetectorsByStage[S] | null> {
+    const detector = this.detectors[stage].get(name);
+    if (!detector) {
+      console.warn(`Detector "${name}" is not registered for stage ${stage}`);
+      return null;
+    }
+    if (!detector.initialize) return detector;
+
+    let initialization = this.initializations.get(detector);
+    if (!initialization) {
+      const failedAt = this.failedAt.get(detector);
+      if (failedAt !== undefined && Date.now() - failedAt < INITIALIZE_RETRY_INTERVAL_MS) {
+        return null;
+      }
+
+      initialization = detector.initialize()
+        .catch(error => {
+          console.error(`Failed to initialize detector "${name}":`, error);
+          return false;
+        })
+        .then(ready => {
+          if (ready) {
+            this.failedAt.delete(detector);
+          } else {
+            this.initializations.delete(detector);
+            this.failedAt.set(detector, Date.now());
+          }
+          return ready;
+        });
+      this.initializations.set(detector, initialization);
+    }
+
+    return (await initialization) ? detector : null;
+  }
+
+  /**
+   * Cho phép khởi tạo lại ngay chiến lược đã thất bại (VD: khi có mạng trở lại)
+   */
+  retry(stage: DetectorStage, name: string): void {
+    const detector = this.detectors[stage].get(name);
+    if (detector) this.failedAt.delete(detector);
+  }
+}
+
+export const detectorRegistry = new DetectorRegistry();
+export default detectorRegistry;
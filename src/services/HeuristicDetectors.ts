@@ -0,0 +1,86 @@
+import { imageProcessingService } from './ImageProcessingService';
+import {
+  ColorDetector,
+  ColorHints,
+  DEFAULT_DETECTOR_NAME,
+  DetectionContext,
+  Detector,
+  LogoDetector,
+  PlateDetector,
+  VehicleDetector,
+} from './DetectorRegistry';
+import { LicensePlateRegion, VehicleProfile, VehicleRegion } from '../types/detection';
+
+const HEURISTIC_VERSION = '1.0.0';
+
+/**
+ * Các chiến lược cổ điển dựa trên mật độ cạnh, Laplacian và histogram màu
+ * của imageProcessingService
+ */
+class EdgeHeuristicVehicleDetector implements VehicleDetector {
+  readonly stage = 'vehicle' as const;
+  readonly name = DEFAULT_DETECTOR_NAME;
+  readonly version = HEURISTIC_VERSION;
+
+  detectVehicles(context: DetectionContext, maxVehicles: number) {
+    return imageProcessingService.detectVehicleRegions(context.features, maxVehicles);
+  }
+}
+
+class EdgeHeuristicPlateDetector implements PlateDetector {
+  readonly stage = 'plate' as const;
+  readonly name = DEFAULT_DETECTOR_NAME;
+  readonly version = HEURISTIC_VERSION;
+
+  detectPlates(
+    context: DetectionContext,
+    vehicleRegion: VehicleRegion | null,
+    profile: VehicleProfile,
+    maxCandidates: number
+  ) {
+    return imageProcessingService.detectLicensePlateCandidates(context.features, vehicleRegion, maxCandidates, profile);
+  }
+}
+
+class EdgeHeuristicLogoDetector implements LogoDetector {
+  readonly stage = 'logo' as const;
+  readonly name = DEFAULT_DETECTOR_NAME;
+  readonly version = HEURISTIC_VERSION;
+
+  detectLogo(
+    context: DetectionContext,
+    vehicleRegion: VehicleRegion | null,
+    profile: VehicleProfile,
+    plate: LicensePlateRegion | null
+  ) {
+    return imageProcessingService.detectLogoRegion(context.features, vehicleRegion, profile, plate);
+  }
+}
+
+class PaletteColorDetector implements ColorDetector {
+  readonly stage = 'color' as const;
+  readonly name = DEFAULT_DETECTOR_NAME;
+  readonly version = HEURISTIC_VERSION;
+
+  detectColor(
+    context: DetectionContext,
+    vehicleRegion: VehicleRegion | null,
+    profile: VehicleProfile,
+    hints: ColorHints
+  ) {
+    return imageProcessingService.detectVehicleColor(
+      context.imageTensor,
+      vehicleRegion,
+      profile,
+      hints.excludedAreas,
+      hints.whiteReference
+    );
+  }
+}
+
+export const heuristicDetectors: Detector[] = [
+  new EdgeHeuristicVehicleDetector(),
+  new EdgeHeuristicPlateDetector(),
+  new EdgeHeuristicLogoDetector(),
+  new PaletteColorDetector(),
+];
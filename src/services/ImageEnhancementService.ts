@@ -0,0 +1,144 @@
+import * as tf from '@tensorflow/tfjs';
+import { EnhancementStep, ImageEnhancementInfo } from '../types/detection';
+import { equalizeHistogramAdaptive } from '../utils/contrast';
+
+// Ảnh tối hơn mức này được tăng sáng bằng gamma và CLAHE
+const LOW_LIGHT_BRIGHTNESS = 0.35;
+// Gamma được chọn để độ sáng trung bình lên mức này, giới hạn để không khuếch đại nhiễu quá mức
+const TARGET_BRIGHTNESS = 0.45;
+const MIN_GAMMA = 0.35;
+// Độ lệch chuẩn mức xám (theo 0-1) dưới ngưỡng này là ảnh tương phản thấp (sương mù, ngược sáng)
+const LOW_CONTRAST_STD = 0.12;
+// Điểm ảnh sáng gần trắng và ít màu (min(r,g,b) cao) là phản xạ gương: đèn pha, nắng trên biển số
+const SPECULAR_LEVEL = 235;
+const MIN_SPECULAR_RATIO = 0.01;
+// Mức kéo điểm phản xạ về màu trung bình xung quanh
+const SPECULAR_SUPPRESSION = 0.6;
+// Màu trung bình xung quanh được tính trên ảnh thu nhỏ về cạnh ngắn này rồi phóng lại
+const HIGHLIGHT_BLUR_SIZE = 320;
+const CLAHE_OPTIONS = { tilesX: 8, tilesY: 8, clipLimit: 2 };
+// Mức thay đổi tối thiểu (theo [0, 1]) của độ sáng/độ tương phản để coi là ảnh đã tốt hơn
+const MIN_METRIC_GAIN = 0.02;
+
+/**
+ * Tiền xử lý ảnh chụp ban đêm/lóa sáng trước khi phát hiện: giảm phản xạ gương,
+ * tăng sáng bằng gamma và tăng tương phản cục bộ bằng CLAHE.
+ * Các bước được chọn tự động theo độ sáng, độ tương phản và tỷ lệ điểm phản xạ đo được
+ */
+class ImageEnhancementService {
+
+  /**
+   * Trả về ảnh đã xử lý (tensor mới, người gọi giải phóng) và thông tin các bước đã áp dụng.
+   * Nếu ảnh không cần xử lý thì trả về chính imageTensor và info = null.
+   * CLAHE chạy từng điểm ảnh bằng JS, nên chỉ gọi với ảnh đã thu nhỏ về độ phân giải làm việc
+   */
+  async enhance(
+    imageTensor: tf.Tensor3D
+  ): Promise<{ image: tf.Tensor3D; info: ImageEnhancementInfo | null }> {
+    const [height, width] = imageTensor.shape;
+    const [brightness, contrast, specularRatio] = await this.measure(imageTensor);
+
+    const steps: EnhancementStep[] = [];
+    let gamma: number | null = null;
+    if (specularRatio > MIN_SPECULAR_RATIO) {
+      steps.push('highlight-suppression');
+    }
+    if (brightness < LOW_LIGHT_BRIGHTNESS) {
+      gamma = Math.max(MIN_GAMMA, Math.min(1, Math.log(TARGET_BRIGHTNESS) / Math.log(Math.max(brightness, 1e-3))));
+      steps.push('gamma', 'clahe');
+    } else if (contrast < LOW_CONTRAST_STD) {
+      steps.push('clahe');
+    }
+
+    if (steps.length === 0) {
+      return { image: imageTensor, info: null };
+    }
+
+    let image = tf.tidy(() => imageTensor.toFloat() as tf.Tensor3D);
+    if (steps.includes('highlight-suppression')) {
+      image = this.replace(image, this.suppressHighlights(image, Math.min(height, width)));
+    }
+    if (gamma !== null) {
+      const exponent = gamma;
+      image = this.replace(image, tf.tidy(() => image.div(255).pow(exponent).mul(255) as tf.Tensor3D));
+    }
+    if (steps.includes('clahe')) {
+      image = this.replace(image, await this.equalizeLuminance(image, width, height));
+    }
+
+    // Cùng kiểu dữ liệu int32 như ảnh giải mã từ JPEG
+    image = this.replace(image, tf.tidy(() => image.round().toInt() as tf.Tensor3D));
+
+    const [brightnessAfter, contrastAfter, specularRatioAfter] = await this.measure(image);
+
+    // Ảnh tốt hơn khi chỉ số mà một bước nhắm tới thực sự được cải thiện
+    const improved =
+      (gamma !== null &&
+        Math.abs(brightnessAfter - TARGET_BRIGHTNESS) < Math.abs(brightness - TARGET_BRIGHTNESS) - MIN_METRIC_GAIN) ||
+      (steps.includes('clahe') && contrastAfter > contrast + MIN_METRIC_GAIN) ||
+      (steps.includes('highlight-suppression') && specularRatioAfter < specularRatio / 2);
+
+    return {
+      image,
+      info: { steps, gamma, brightnessBefore: brightness, brightnessAfter, improved, width, height },
+    };
+  }
+
+  /**
+   * Độ sáng trung bình, độ lệch chuẩn mức xám (cùng theo [0, 1]) và tỷ lệ điểm phản xạ gương
+   */
+  private async measure(image: tf.Tensor3D): Promise<[number, number, number]> {
+    const stats = tf.tidy(() => {
+      const rgb = image.toFloat();
+      const { mean, variance } = tf.moments(rgb.mean(2));
+      const specular = rgb.min(2).greaterEqual(SPECULAR_LEVEL).toFloat().mean();
+      return tf.stack([mean.div(255), variance.sqrt().div(255), specular]);
+    });
+    const [brightness, contrast, specularRatio] = Array.from(await stats.data());
+    stats.dispose();
+    return [brightness, contrast, specularRatio];
+  }
+
+  /**
+   * Kéo các điểm phản xạ gương về màu trung bình của vùng xung quanh
+   */
+  private suppressHighlights(image: tf.Tensor3D, shortSide: number): tf.Tensor3D {
+    return tf.tidy(() => {
+      const [height, width] = image.shape;
+      const scale = Math.min(1, HIGHLIGHT_BLUR_SIZE / shortSide);
+      const small = scale < 1
+        ? tf.image.resizeBilinear(image, [Math.round(height * scale), Math.round(width * scale)])
+        : image;
+      // Cửa sổ lẻ khoảng 1/50 cạnh ngắn của ảnh
+      const poolSize = Math.max(3, Math.round((shortSide * scale) / 50) | 1);
+      const smallMean = tf.avgPool(small, poolSize, 1, 'same');
+      const localMean = scale < 1 ? tf.image.resizeBilinear(smallMean, [height, width]) : smallMean;
+      const specular = image.min(2, true).greaterEqual(SPECULAR_LEVEL);
+      const suppressed = image.add(localMean.sub(image).mul(SPECULAR_SUPPRESSION));
+      return tf.where(specular.tile([1, 1, 3]), suppressed, image) as tf.Tensor3D;
+    });
+  }
+
+  /**
+   * CLAHE trên kênh độ sáng, giữ nguyên tỷ lệ màu của từng điểm ảnh
+   */
+  private async equalizeLuminance(image: tf.Tensor3D, width: number, height: number): Promise<tf.Tensor3D> {
+    const luminance = tf.tidy(() => image.mean(2));
+    const equalized = equalizeHistogramAdaptive(await luminance.data(), width, height, CLAHE_OPTIONS);
+
+    const result = tf.tidy(() => {
+      const ratio = tf.tensor2d(equalized, [height, width]).div(tf.maximum(luminance, 1)).expandDims(2);
+      return image.mul(ratio).clipByValue(0, 255) as tf.Tensor3D;
+    });
+    luminance.dispose();
+    return result;
+  }
+
+  private replace(previous: tf.Tensor3D, next: tf.Tensor3D): tf.Tensor3D {
+    previous.dispose();
+    return next;
+  }
+}
+
+export const imageEnhancementService = new ImageEnhancementService();
+export default imageEnhancementService;
@@ -4,111 +4,400 @@ import {
   VehicleRegion, 
   LicensePlateRegion, 
   LogoRegion,
+  LogoCue,
   ColorInfo,
+  PaletteColor,
+  PlateLayout,
+  PlateCategory,
+  PlateColorInfo,
+  VehicleProfile,
+  WhiteBalanceInfo,
+  WhiteBalanceReference,
+  DetectionThresholds,
+  DEFAULT_DETECTION_THRESHOLDS,
 } from '../types/detection';
+import { computeContainment, nonMaxSuppression } from '../utils/geometry';
+import { labelConnectedComponents } from '../utils/binaryImage';
+import { colorTaxonomyService } from './ColorTaxonomyService';
+import { ColorCluster, kMeansColors } from '../utils/colorPalette';
+import {
+  ChannelGains,
+  applyGains,
+  estimateIlluminant,
+  gainsFromIlluminant,
+  gainsFromWhiteReference,
+} from '../utils/whiteBalance';
+import { perceptualHash } from '../utils/perceptualHash';
+
+/**
+ * Các đặc trưng ảnh dùng chung cho mọi detector.
+ * Được tính một lần cho mỗi ảnh bằng computeImageFeatures() và giải phóng
+ * ở một chỗ duy nhất bằng disposeImageFeatures()
+ */
+export interface ImageFeatures {
+  width: number;
+  height: number;
+  gray: tf.Tensor2D;              // Ảnh xám (0-255)
+  gradientMagnitude: tf.Tensor2D; // Độ lớn gradient Sobel, chuẩn hóa về [0, 1]
+  horizontalEdges: tf.Tensor2D;   // |Sobel X| (nét dọc của ký tự), chuẩn hóa về [0, 1]
+  laplacian: tf.Tensor2D;         // |Laplacian|, chuẩn hóa về [0, 1]
+  thresholds: AdaptiveThresholds; // Ngưỡng của các detector, tính theo thống kê của ảnh này
+}
+
+/**
+ * Ngưỡng đã quy đổi cho một ảnh từ DetectionThresholds và thống kê cạnh của ảnh
+ */
+export interface AdaptiveThresholds {
+  edge: number;                   // Ngưỡng gradientMagnitude cho điểm cạnh của vùng xe
+  vehicleDensity: number;         // Mật độ điểm cạnh tối thiểu của cửa sổ vùng xe
+  strongEdge: number;             // Ngưỡng horizontalEdges cho điểm cạnh mạnh của biển số
+  plateEdgeDensity: number;       // Mật độ cạnh ngang tối thiểu của cửa sổ biển số
+  plateStrongEdgeRatio: number;   // Tỷ lệ điểm cạnh mạnh tối thiểu của cửa sổ biển số
+  logoScore: number;              // Laplacian trung bình tối thiểu của cửa sổ logo
+}
+
+// Ngưỡng điểm cạnh không thấp hơn mức này để ảnh phẳng (ít cạnh) không biến nhiễu thành cạnh
+const MIN_EDGE_THRESHOLD = 0.05;
+
+// Cửa sổ xe gần như không được chồng lấn; cửa sổ lệch 2/8 ảnh (IoU 0.2) vẫn là cùng một xe
+const VEHICLE_NMS_IOU_THRESHOLD = 0.1;
+// Xe phụ phải đạt ít nhất tỷ lệ này so với mật độ cạnh của xe chính
+const SECONDARY_VEHICLE_MIN_RELATIVE_DENSITY = 0.7;
+
+// Hai cửa sổ biển số chồng lấn hơn ngưỡng này được coi là cùng một biển
+const PLATE_NMS_IOU_THRESHOLD = 0.3;
+
+/**
+ * Một kích thước cửa sổ logo và vùng phải chứa trọn cửa sổ
+ */
+interface LogoWindowSearch {
+  width: number;
+  height: number;
+  area: BoundingBox;
+}
+
+/**
+ * Phần của một vùng chữ nhật, tính theo tỷ lệ [0, 1] của chiều rộng/chiều cao
+ */
+interface RegionFraction {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Thông số tìm biển số, logo và màu cho một kiểu xe
+ */
+interface DetectionProfileSettings {
+  // Kích thước cửa sổ biển số/logo tính theo chiều rộng ảnh hay chiều rộng vùng xe
+  sizeReference: 'image' | 'vehicle';
+  plateTemplates: Array<{ layout: PlateLayout; widthRatio: number; aspectRatio: number }>;
+  plateSearchArea: RegionFraction;  // Trong vùng xe
+  logoSearch: {
+    // Vùng tìm trên trục đối xứng/vị trí mặc định: tâm theo chiều cao vùng xe, bán kính và
+    // kích thước logo theo chiều rộng tham chiếu
+    centerY: number;
+    radius: number;
+    sizes: number[];
+    // Nhân thêm vào ngưỡng logo thích nghi của ảnh
+    minScoreFactor: number;
+    aspectRatios: number[];                     // Rộng/cao, logo thường dẹt hơn hình vuông
+    // Tìm phía trên biển số: quy đổi mm ra pixel theo chiều rộng biển thật
+    plateWidthMm: Record<PlateLayout, number>;
+    widthsMm: number[];
+    plateGapMm: [number, number];               // Từ mép dưới logo tới mép trên biển
+  };
+  colorArea: RegionFraction;        // Trong vùng xe
+}
+
+const DETECTION_PROFILES: Record<VehicleProfile, DetectionProfileSettings> = {
+  car: {
+    sizeReference: 'image',
+    plateTemplates: [
+      { layout: 'one-row', widthRatio: 0.25, aspectRatio: 4.7 },  // Biển dài 520x110mm
+      { layout: 'one-row', widthRatio: 0.18, aspectRatio: 4.7 },
+      { layout: 'two-row', widthRatio: 0.15, aspectRatio: 2 },    // Biển vuông ô tô 330x165mm
+      { layout: 'two-row', widthRatio: 0.1, aspectRatio: 1.4 },   // Biển xe máy 190x140mm
+    ],
+    plateSearchArea: { left: 0, top: 0.3, right: 1, bottom: 1 },
+    // Logo ở giữa lưới tản nhiệt hoặc cốp sau, ngay trên biển số
+    logoSearch: {
+      centerY: 0.2,
+      radius: 0.3,
+      sizes: [0.06, 0.08, 0.1],
+      minScoreFactor: 1,
+      aspectRatios: [1, 1.6, 2.5],
+      plateWidthMm: { 'one-row': 520, 'two-row': 330 },
+      widthsMm: [100, 150, 200],
+      plateGapMm: [30, 600],
+    },
+    // Bỏ kính (phía trên), bánh xe và mặt đường (phía dưới)
+    colorArea: { left: 0.05, top: 0.4, right: 0.95, bottom: 0.9 },
+  },
+  motorcycle: {
+    sizeReference: 'vehicle',
+    // Biển xe máy 190x140mm chiếm khoảng 1/4 đến 2/5 chiều rộng xe nhìn từ sau
+    plateTemplates: [
+      { layout: 'two-row', widthRatio: 0.4, aspectRatio: 1.4 },
+      { layout: 'two-row', widthRatio: 0.3, aspectRatio: 1.4 },
+      { layout: 'two-row', widthRatio: 0.22, aspectRatio: 1.4 },
+    ],
+    // Biển gắn thấp dưới đèn hậu, gần giữa xe
+    plateSearchArea: { left: 0.1, top: 0.45, right: 0.9, bottom: 1 },
+    // Logo nhỏ trên yếm hoặc đuôi xe, phía dưới người lái; nhiều xe không thấy logo từ phía sau.
+    // Logo xe máy thường là chữ dẹt
+    logoSearch: {
+      centerY: 0.55,
+      radius: 0.2,
+      sizes: [0.08, 0.12, 0.16],
+      minScoreFactor: 1.5,
+      aspectRatios: [1.5, 3],
+      plateWidthMm: { 'one-row': 190, 'two-row': 190 },
+      widthsMm: [50, 80, 120],
+      plateGapMm: [20, 300],
+    },
+    // Thân vỏ xe nằm giữa người lái (phía trên) và bánh xe, mặt đường (phía dưới)
+    colorArea: { left: 0.15, top: 0.5, right: 0.85, bottom: 0.85 },
+  },
+};
+// Chiều rộng giả định của xe khi không có vùng xe, theo chiều rộng ảnh
+const UNKNOWN_VEHICLE_WIDTH_RATIO = 0.5;
+// Vùng xe được thu về lưới này để tìm trục đối xứng
+const SYMMETRY_SAMPLE_SIZE = 64;
+// Độ đối xứng tối thiểu của gradient hai bên trục để dùng trục tìm logo
+const MIN_AXIS_SYMMETRY = 0.7;
+// Trục đối xứng lệch khỏi tâm biển quá tỷ lệ này (theo chiều rộng biển) thì lấy tâm biển làm trục
+const PLATE_AXIS_TOLERANCE = 0.25;
+// Độ tin cậy logo theo dấu hiệu định vị: vị trí mặc định dễ trùng chi tiết khác hơn
+const LOGO_CUE_CONFIDENCE: Record<LogoCue, number> = {
+  plate: 1,
+  symmetry: 0.9,
+  profile: 0.75,
+};
+// Logo được co về LOGO_HASH_SIZE x LOGO_HASH_SIZE trước khi băm; vùng nhỏ hơn MIN_LOGO_HASH_PIXELS
+// mỗi cạnh không đủ chi tiết để phân biệt logo
+const LOGO_HASH_SIZE = 32;
+const MIN_LOGO_HASH_PIXELS = 8;
+// Vùng màu được thu về tối đa COLOR_SAMPLE_SIZE điểm mỗi cạnh trước khi phân cụm
+const COLOR_SAMPLE_SIZE = 64;
+const PALETTE_CLUSTERS = 4;
+// Điểm ảnh có max(r,g,b) thấp hơn mức này là bóng/lốp, min(r,g,b) từ mức này là phản xạ gương
+const COLOR_DARK_LEVEL = 40;
+const COLOR_SPECULAR_LEVEL = 235;
+// Tỷ lệ điểm tối để coi xe sơn màu tối thay vì chỉ là bóng
+const DARK_BODY_RATIO = 0.5;
+// Màu thứ hai chiếm từ tỷ lệ này trở lên thì là xe hai màu
+const TWO_TONE_MIN_PROPORTION = 0.25;
+// Màu chủ đạo phủ từ tỷ lệ này trở lên thì không bị giảm độ tin cậy
+const DOMINANT_MIN_PROPORTION = 0.5;
+// Hệ số cân bằng trắng mọi kênh lệch khỏi 1 dưới mức này thì coi như không cần chỉnh
+const MIN_COLOR_CAST = 0.08;
+// Mức sáng của nền biển số trắng dưới ánh sáng ban ngày bình thường
+const REFERENCE_WHITE_LEVEL = 230;
+// Tỷ lệ ảnh tối thiểu ngoài vùng xe để ước lượng nguồn sáng
+const MIN_SCENE_RATIO = 0.2;
+// Vùng rộng hơn tỷ lệ này luôn là biển 1 dòng
+const TWO_ROW_MAX_ASPECT_RATIO = 3;
+// Độ sâu tối thiểu của khe giữa hai dòng ký tự để coi là biển 2 dòng
+const TWO_ROW_MIN_GAP_DEPTH = 0.35;
+
+// Tìm biển số theo khối cạnh dọc: cửa sổ đóng hình thái học rộng 1/30 vùng tìm kiếm,
+// đủ để nối khe giữa các nét chữ của biển chiếm từ 1/10 đến 1/2 chiều rộng vùng
+const PLATE_BLOB_CLOSING_DIVISOR = 30;
+const PLATE_BLOB_MIN_HEIGHT = 8;
+const PLATE_BLOB_MIN_ASPECT_RATIO = 1.1;
+const PLATE_BLOB_MAX_ASPECT_RATIO = 6.5;
+// Diện tích khối / diện tích hình chữ nhật bao
+const PLATE_BLOB_MIN_RECTANGULARITY = 0.5;
+// Cửa sổ nằm phần lớn trong một khối biển số chỉ là một mảnh của biển đó
+const PLATE_BLOB_FRAGMENT_CONTAINMENT = 0.6;
+
+/**
+ * Lưới cửa sổ trượt (toạ độ nguyên, theo pixel) dùng để chấm điểm trên integral image
+ */
+interface WindowGrid {
+  x: number;          // Góc trên trái của cửa sổ đầu tiên
+  y: number;
+  windowWidth: number;
+  windowHeight: number;
+  stepX: number;
+  stepY: number;
+  cols: number;
+  rows: number;
+}
 
 /**
  * Service xử lý hình ảnh để phát hiện các vùng trên xe
  * Đây là bước tiền xử lý trước khi gửi lên cloud
  */
 class ImageProcessingService {
-  
+
   /**
-   * Phát hiện vùng xe (đầu/đít xe) dựa trên edge detection và contour analysis
+   * Tính grayscale, gradient Sobel, cạnh ngang, Laplacian và ngưỡng thích nghi một lần cho cả ảnh.
+   * Người gọi chịu trách nhiệm gọi disposeImageFeatures() khi xử lý xong
    */
-  async detectVehicleRegion(
+  async computeImageFeatures(
     imageTensor: tf.Tensor3D,
-    imageWidth: number,
-    imageHeight: number
-  ): Promise<VehicleRegion | null> {
-    const tensorsToDispose: tf.Tensor[] = [];
+    thresholds: DetectionThresholds = DEFAULT_DETECTION_THRESHOLDS
+  ): Promise<ImageFeatures> {
+    const [height, width] = imageTensor.shape;
+
+    const maps = tf.tidy(() => {
+      const gray = imageTensor.mean(2) as tf.Tensor2D;
+      const expanded = gray.expandDims(0).expandDims(-1) as tf.Tensor4D;
 
-    try {
-      // Convert to grayscale
-      const gray = imageTensor.mean(2);
-      tensorsToDispose.push(gray);
-      
-      // Edge detection using Sobel
       const sobelX = tf.tensor2d([[-1, 0, 1], [-2, 0, 2], [-1, 0, 1]]);
       const sobelY = tf.tensor2d([[-1, -2, -1], [0, 0, 0], [1, 2, 1]]);
-      tensorsToDispose.push(sobelX, sobelY);
-      
-      const expanded = gray.expandDims(0).expandDims(-1);
-      const kernelX = sobelX.expandDims(-1).expandDims(-1);
-      const kernelY = sobelY.expandDims(-1).expandDims(-1);
-      tensorsToDispose.push(expanded, kernelX, kernelY);
-      
-      const gradX = tf.conv2d(expanded as tf.Tensor4D, kernelX as tf.Tensor4D, 1, 'same');
-      const gradY = tf.conv2d(expanded as tf.Tensor4D, kernelY as tf.Tensor4D, 1, 'same');
-      tensorsToDispose.push(gradX, gradY);
-      
-      const magnitude = tf.sqrt(tf.add(tf.square(gradX), tf.square(gradY))).squeeze();
-      tensorsToDispose.push(magnitude);
-      
-      // Normalize và threshold
-      const maxVal = (magnitude as tf.Tensor2D).max();
-      const normalized = (magnitude as tf.Tensor2D).div(maxVal);
-      const threshold = normalized.greater(0.15);
-      tensorsToDispose.push(maxVal, normalized, threshold);
-      
-      // Tìm vùng có nhiều edge nhất (thường là vùng xe)
-      const edgeData = await threshold.data();
+      const laplacianKernel = tf.tensor2d([
+        [0, 1, 0],
+        [1, -4, 1],
+        [0, 1, 0]
+      ]);
+
+      const gradX = this.convolve(expanded, sobelX);
+      const gradY = this.convolve(expanded, sobelY);
+      const magnitude = tf.sqrt(tf.add(tf.square(gradX), tf.square(gradY))) as tf.Tensor2D;
+
+      return {
+        gray,
+        gradientMagnitude: this.normalizeByMax(magnitude),
+        horizontalEdges: this.normalizeByMax(tf.abs(gradX)),
+        laplacian: this.normalizeByMax(tf.abs(this.convolve(expanded, laplacianKernel))),
+      };
+    });
+
+    return {
+      width,
+      height,
+      ...maps,
+      thresholds: await this.computeAdaptiveThresholds(maps, thresholds),
+    };
+  }
+
+  /**
+   * Quy đổi hệ số trong DetectionThresholds thành ngưỡng tuyệt đối theo trung bình,
+   * độ lệch chuẩn và tỷ lệ điểm cạnh của ảnh
+   */
+  private async computeAdaptiveThresholds(
+    maps: Pick<ImageFeatures, 'gradientMagnitude' | 'horizontalEdges' | 'laplacian'>,
+    thresholds: DetectionThresholds
+  ): Promise<AdaptiveThresholds> {
+    const statistics = tf.tidy(() => {
+      const gradient = tf.moments(maps.gradientMagnitude);
+      const horizontal = tf.moments(maps.horizontalEdges);
+      const edge = tf.maximum(
+        gradient.mean.add(gradient.variance.sqrt().mul(thresholds.edgeStdFactor)),
+        MIN_EDGE_THRESHOLD
+      );
+      const strongEdge = tf.maximum(
+        horizontal.mean.add(horizontal.variance.sqrt().mul(thresholds.strongEdgeStdFactor)),
+        MIN_EDGE_THRESHOLD
+      );
+
+      return tf.stack([
+        edge,
+        maps.gradientMagnitude.greater(edge).toFloat().mean(),
+        strongEdge,
+        maps.horizontalEdges.greater(strongEdge).toFloat().mean(),
+        horizontal.mean,
+        maps.laplacian.mean(),
+      ]);
+    });
+    const [edge, edgeRatio, strongEdge, strongEdgeRatio, horizontalMean, laplacianMean] =
+      Array.from(await statistics.data());
+    statistics.dispose();
+
+    return {
+      edge,
+      vehicleDensity: edgeRatio * thresholds.vehicleDensityFactor,
+      strongEdge,
+      plateEdgeDensity: horizontalMean * thresholds.plateEdgeDensityFactor,
+      plateStrongEdgeRatio: strongEdgeRatio * thresholds.plateStrongEdgeFactor,
+      logoScore: laplacianMean * thresholds.logoScoreFactor,
+    };
+  }
+
+  disposeImageFeatures(features: ImageFeatures): void {
+    tf.dispose([
+      features.gray,
+      features.gradientMagnitude,
+      features.horizontalEdges,
+      features.laplacian,
+    ]);
+  }
+
+  /**
+   * Phát hiện vùng xe (đầu/đít xe) dựa trên edge detection và contour analysis
+   */
+  async detectVehicleRegion(features: ImageFeatures): Promise<VehicleRegion | null> {
+    const regions = await this.detectVehicleRegions(features, 1);
+    return regions[0] || null;
+  }
+
+  /**
+   * Phát hiện tối đa maxVehicles vùng xe không chồng lấn, xếp hạng theo mật độ cạnh.
+   * Xe phụ phải có mật độ gần bằng xe chính để không tách một xe thành nhiều vùng
+   */
+  async detectVehicleRegions(
+    features: ImageFeatures,
+    maxVehicles: number = 3
+  ): Promise<VehicleRegion[]> {
+    const { width: imageWidth, height: imageHeight } = features;
+    const tensorsToDispose: tf.Tensor[] = [];
+
+    try {
+      // Threshold thích nghi trên gradient, rồi lấy integral image để tính mật độ theo cửa sổ
+      const edgeIntegral = tf.tidy(() =>
+        this.integralImage(features.gradientMagnitude.greater(features.thresholds.edge).toFloat() as tf.Tensor2D)
+      );
+      tensorsToDispose.push(edgeIntegral);
       
-      // Chia hình thành grid để tìm vùng tập trung edge
+      // Chia hình thành grid 8x8, mỗi cửa sổ phủ 3x3 ô để tìm vùng tập trung edge
       const gridSize = 8;
       const cellWidth = Math.floor(imageWidth / gridSize);
       const cellHeight = Math.floor(imageHeight / gridSize);
       
-      let maxDensity = 0;
-      let bestRegion = { x: 0, y: 0, width: 0, height: 0 };
-      
-      // Scan qua các vùng để tìm vehicle region
-      for (let gy = 0; gy < gridSize - 2; gy++) {
-        for (let gx = 0; gx < gridSize - 2; gx++) {
-          let density = 0;
-          const startX = gx * cellWidth;
-          const startY = gy * cellHeight;
-          const regionWidth = cellWidth * 3;
-          const regionHeight = cellHeight * 3;
-          
-          // Tính edge density trong vùng
-          for (let y = startY; y < startY + regionHeight && y < imageHeight; y++) {
-            for (let x = startX; x < startX + regionWidth && x < imageWidth; x++) {
-              const idx = y * imageWidth + x;
-              if (edgeData[idx]) density++;
-            }
-          }
-          
-          density /= (regionWidth * regionHeight);
-          
-          if (density > maxDensity) {
-            maxDensity = density;
-            bestRegion = {
-              x: startX,
-              y: startY,
-              width: regionWidth,
-              height: regionHeight
-            };
+      const grid = this.createWindowGrid(
+        { x: 0, y: 0, width: imageWidth, height: imageHeight },
+        cellWidth * 3,
+        cellHeight * 3,
+        cellWidth,
+        cellHeight
+      );
+      if (!grid) return [];
+
+      const densityMap = this.windowMeans(edgeIntegral, grid);
+      tensorsToDispose.push(densityMap);
+      const densities = await this.readScoreMap(densityMap);
+      
+      const candidates: Array<{ bbox: BoundingBox; score: number }> = [];
+      
+      for (let row = 0; row < grid.rows; row++) {
+        for (let col = 0; col < grid.cols; col++) {
+          const density = densities[row][col];
+          if (density > features.thresholds.vehicleDensity) {
+            candidates.push({ bbox: this.gridWindowBox(grid, row, col), score: density });
           }
         }
       }
       
-      if (maxDensity > 0.05) {
-        // Xác định đầu hay đít xe dựa vào vị trí vertical
-        const centerY = bestRegion.y + bestRegion.height / 2;
-        const type: 'front' | 'rear' = centerY > imageHeight * 0.5 ? 'rear' : 'front';
-        
-        return {
-          type,
-          bbox: bestRegion,
-          confidence: Math.min(maxDensity * 5, 0.95)
-        };
-      }
+      if (candidates.length === 0) return [];
       
-      return null;
+      const maxDensity = Math.max(...candidates.map(c => c.score));
+      const strongCandidates = candidates.filter(
+        c => c.score >= maxDensity * SECONDARY_VEHICLE_MIN_RELATIVE_DENSITY
+      );
+      
+      // Hướng xe được vehicleOrientationService xác định sau, ở đây chỉ là giá trị tạm
+      return nonMaxSuppression(strongCandidates, VEHICLE_NMS_IOU_THRESHOLD, maxVehicles).map(candidate => ({
+        type: 'front' as const,
+        bbox: candidate.bbox,
+        confidence: Math.min(candidate.score * 5, 0.95)
+      }));
     } catch (error) {
       console.error('Vehicle detection error:', error);
-      return null;
+      return [];
     } finally {
       tensorsToDispose.forEach(t => t.dispose());
     }
@@ -119,34 +408,35 @@ class ImageProcessingService {
    * Biển số VN thường có tỷ lệ 4:1 hoặc 2:1
    */
   async detectLicensePlateRegion(
-    imageTensor: tf.Tensor3D,
-    imageWidth: number,
-    imageHeight: number,
+    features: ImageFeatures,
     vehicleRegion?: VehicleRegion | null
   ): Promise<LicensePlateRegion | null> {
+    const candidates = await this.detectLicensePlateCandidates(features, vehicleRegion, 1);
+    return candidates[0] || null;
+  }
+
+  /**
+   * Trả về tối đa maxCandidates vùng biển số, xếp hạng theo điểm.
+   * Các cửa sổ chồng lấn được gộp bằng NMS để mỗi ứng viên là một vùng riêng biệt
+   */
+  async detectLicensePlateCandidates(
+    features: ImageFeatures,
+    vehicleRegion?: VehicleRegion | null,
+    maxCandidates: number = 3,
+    profile: VehicleProfile = 'car'
+  ): Promise<LicensePlateRegion[]> {
+    const { width: imageWidth, height: imageHeight } = features;
+    const settings = DETECTION_PROFILES[profile];
+    const referenceWidth = this.profileReferenceWidth(settings, imageWidth, vehicleRegion);
     const tensorsToDispose: tf.Tensor[] = [];
 
     try {
-      // Convert to grayscale
-      const gray = imageTensor.mean(2);
-      tensorsToDispose.push(gray);
-      
-      // Edge detection
-      const sobelX = tf.tensor2d([[-1, 0, 1], [-2, 0, 2], [-1, 0, 1]]);
-      tensorsToDispose.push(sobelX);
-      
-      const expanded = gray.expandDims(0).expandDims(-1);
-      const kernelX = sobelX.expandDims(-1).expandDims(-1);
-      tensorsToDispose.push(expanded, kernelX);
-      
-      const edges = tf.abs(tf.conv2d(expanded as tf.Tensor4D, kernelX as tf.Tensor4D, 1, 'same')).squeeze();
-      tensorsToDispose.push(edges);
-      
-      const edgeData = await edges.data();
-      const maxEdgeTensor = (edges as tf.Tensor2D).max();
-      tensorsToDispose.push(maxEdgeTensor);
-      const maxEdgeData = await maxEdgeTensor.data();
-      const maxEdge = maxEdgeData[0];
+      // Integral image của cạnh (đã chuẩn hóa) và của các điểm cạnh mạnh
+      const edgeIntegral = tf.tidy(() => this.integralImage(features.horizontalEdges));
+      const strongEdgeIntegral = tf.tidy(() =>
+        this.integralImage(features.horizontalEdges.greater(features.thresholds.strongEdge).toFloat() as tf.Tensor2D)
+      );
+      tensorsToDispose.push(edgeIntegral, strongEdgeIntegral);
       
       // Vùng tìm kiếm (ưu tiên trong vehicle region nếu có)
       let searchStartX = 0;
@@ -155,174 +445,296 @@ class ImageProcessingService {
       let searchEndY = imageHeight;
       
       if (vehicleRegion) {
-        searchStartX = vehicleRegion.bbox.x;
-        searchStartY = vehicleRegion.bbox.y + vehicleRegion.bbox.height * 0.3;
-        searchEndX = vehicleRegion.bbox.x + vehicleRegion.bbox.width;
-        searchEndY = vehicleRegion.bbox.y + vehicleRegion.bbox.height;
+        const { bbox } = vehicleRegion;
+        const area = settings.plateSearchArea;
+        searchStartX = bbox.x + bbox.width * area.left;
+        searchStartY = bbox.y + bbox.height * area.top;
+        searchEndX = bbox.x + bbox.width * area.right;
+        searchEndY = bbox.y + bbox.height * area.bottom;
       }
       
-      // Tìm vùng có density edge cao với aspect ratio phù hợp
-      const candidates: Array<{ bbox: BoundingBox; score: number }> = [];
+      // Vùng xe sát mép ảnh có thể làm vùng tìm vượt ra ngoài ảnh
+      const searchArea = this.clipBox({
+        x: searchStartX,
+        y: searchStartY,
+        width: searchEndX - searchStartX,
+        height: searchEndY - searchStartY,
+      }, imageWidth, imageHeight);
       
-      // Scan với các kích thước biển số khác nhau
-      const plateSizes = [
-        { w: imageWidth * 0.25, h: imageWidth * 0.065 },
-        { w: imageWidth * 0.15, h: imageWidth * 0.075 },
-      ];
+      // Tìm vùng có density edge cao với aspect ratio phù hợp
+      const candidates: Array<{ bbox: BoundingBox; score: number; layout: PlateLayout }> = [];
       
-      for (const size of plateSizes) {
-        const stepX = size.w * 0.3;
-        const stepY = size.h * 0.5;
+      // Scan với các kích thước biển số khác nhau cho từng kiểu biển
+      for (const template of settings.plateTemplates) {
+        const size = {
+          w: referenceWidth * template.widthRatio,
+          h: (referenceWidth * template.widthRatio) / template.aspectRatio,
+        };
+        const grid = this.createWindowGrid(searchArea, size.w, size.h, size.w * 0.3, size.h * 0.5);
+        if (!grid) continue;
         
-        for (let y = searchStartY; y < searchEndY - size.h; y += stepY) {
-          for (let x = searchStartX; x < searchEndX - size.w; x += stepX) {
-            let edgeDensity = 0;
-            let horizontalEdges = 0;
-            
-            for (let dy = 0; dy < size.h; dy++) {
-              for (let dx = 0; dx < size.w; dx++) {
-                const idx = Math.floor(y + dy) * imageWidth + Math.floor(x + dx);
-                const edgeVal = (edgeData[idx] || 0) / maxEdge;
-                edgeDensity += edgeVal;
-                
-                if (edgeVal > 0.3) horizontalEdges++;
-              }
-            }
-            
-            edgeDensity /= (size.w * size.h);
-            const horizontalRatio = horizontalEdges / (size.w * size.h);
+        const densityMap = this.windowMeans(edgeIntegral, grid);
+        const strongRatioMap = this.windowMeans(strongEdgeIntegral, grid);
+        tensorsToDispose.push(densityMap, strongRatioMap);
+        
+        const densities = await this.readScoreMap(densityMap);
+        const strongRatios = await this.readScoreMap(strongRatioMap);
+        
+        for (let row = 0; row < grid.rows; row++) {
+          for (let col = 0; col < grid.cols; col++) {
+            const edgeDensity = densities[row][col];
+            const horizontalRatio = strongRatios[row][col];
             
-            if (edgeDensity > 0.15 && horizontalRatio > 0.1) {
+            if (
+              edgeDensity > features.thresholds.plateEdgeDensity &&
+              horizontalRatio > features.thresholds.plateStrongEdgeRatio
+            ) {
               candidates.push({
-                bbox: { x: Math.floor(x), y: Math.floor(y), width: Math.floor(size.w), height: Math.floor(size.h) },
-                score: edgeDensity * 0.6 + horizontalRatio * 0.4
+                bbox: this.gridWindowBox(grid, row, col),
+                score: edgeDensity * 0.6 + horizontalRatio * 0.4,
+                layout: template.layout
               });
             }
           }
         }
       }
       
-      if (candidates.length === 0) return null;
+      // Gộp với các khối hình biển số tìm theo hình thái học, không phụ thuộc kích thước cửa sổ.
+      // Cửa sổ nằm gọn trong một khối (biển gần hơn cỡ cửa sổ) được thay bằng cả khối
+      const blobs = await this.findPlateBlobs(features, searchArea);
+      const mergedCandidates = [
+        ...candidates.filter(candidate => blobs.every(blob =>
+          computeContainment(candidate.bbox, blob.bbox) < PLATE_BLOB_FRAGMENT_CONTAINMENT
+        )),
+        ...blobs,
+      ];
       
-      candidates.sort((a, b) => b.score - a.score);
-      const best = candidates[0];
+      const plates: LicensePlateRegion[] = [];
       
-      return {
-        bbox: best.bbox,
-        confidence: Math.min(best.score * 2, 0.9)
-      };
+      for (const candidate of nonMaxSuppression(mergedCandidates, PLATE_NMS_IOU_THRESHOLD, maxCandidates)) {
+        const { layout, layoutAgreement } = await this.classifyPlateLayout(features, candidate.bbox);
+        // Cửa sổ vuông nhưng không thấy 2 dòng ký tự thì ít giống biển số hơn
+        const score = candidate.layout === layout ? candidate.score : candidate.score * (1 - layoutAgreement * 0.2);
+        
+        plates.push({
+          bbox: candidate.bbox,
+          confidence: Math.min(score * 2, 0.9),
+          layout
+        });
+      }
+      
+      return plates.sort((a, b) => b.confidence - a.confidence);
     } catch (error) {
       console.error('License plate detection error:', error);
-      return null;
+      return [];
     } finally {
       tensorsToDispose.forEach(t => t.dispose());
     }
   }
 
   /**
-   * Phát hiện vùng logo (thường ở giữa đầu xe hoặc đít xe)
+   * Tìm vùng biển số ở mọi kích thước: đóng hình thái học mặt nạ cạnh dọc để các ký tự
+   * liền thành một khối, rồi giữ các vùng liên thông có tỷ lệ và độ chữ nhật giống biển số.
+   * Điểm tính cùng công thức với quét cửa sổ để hai nguồn ứng viên so sánh được với nhau
+   */
+  private async findPlateBlobs(
+    features: ImageFeatures,
+    searchArea: BoundingBox
+  ): Promise<Array<{ bbox: BoundingBox; score: number; layout: PlateLayout }>> {
+    const area = this.clipBox(searchArea, features.width, features.height);
+    const areaX = Math.floor(area.x);
+    const areaY = Math.floor(area.y);
+    const width = Math.floor(area.width);
+    const height = Math.floor(area.height);
+    if (width < PLATE_BLOB_MIN_HEIGHT * PLATE_BLOB_MIN_ASPECT_RATIO || height < PLATE_BLOB_MIN_HEIGHT) {
+      return [];
+    }
+
+    const { strongEdge, plateEdgeDensity, plateStrongEdgeRatio } = features.thresholds;
+    const kernelWidth = Math.max(3, Math.round(width / PLATE_BLOB_CLOSING_DIVISOR) | 1);
+    const kernelHeight = Math.max(3, Math.round(kernelWidth / 2) | 1);
+
+    const [edgeTensor, closedTensor] = tf.tidy(() => {
+      const edges = features.horizontalEdges.slice([areaY, areaX], [height, width]);
+      const strong = edges.greater(strongEdge).toFloat().expandDims(0).expandDims(-1) as tf.Tensor4D;
+      // Closing = dilation (max pool) rồi erosion (-max pool của ảnh âm)
+      const dilated = tf.maxPool(strong, [kernelHeight, kernelWidth], 1, 'same');
+      const closed = tf.maxPool(dilated.neg(), [kernelHeight, kernelWidth], 1, 'same').neg();
+      return [edges, closed.squeeze([0, 3])];
+    });
+    const [edges, closed] = await Promise.all([edgeTensor.data(), closedTensor.data()]);
+    tf.dispose([edgeTensor, closedTensor]);
+
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = closed[i] > 0.5 ? 1 : 0;
+    }
+
+    const blobs: Array<{ bbox: BoundingBox; score: number; layout: PlateLayout }> = [];
+    for (const component of labelConnectedComponents(mask, width, height).components) {
+      const { bbox } = component;
+      const aspectRatio = bbox.width / bbox.height;
+      if (
+        bbox.height < PLATE_BLOB_MIN_HEIGHT ||
+        aspectRatio < PLATE_BLOB_MIN_ASPECT_RATIO ||
+        aspectRatio > PLATE_BLOB_MAX_ASPECT_RATIO ||
+        component.area / (bbox.width * bbox.height) < PLATE_BLOB_MIN_RECTANGULARITY
+      ) {
+        continue;
+      }
+
+      let edgeSum = 0;
+      let strongCount = 0;
+      for (let y = bbox.y; y < bbox.y + bbox.height; y++) {
+        for (let x = bbox.x; x < bbox.x + bbox.width; x++) {
+          const value = edges[y * width + x];
+          edgeSum += value;
+          if (value > strongEdge) strongCount++;
+        }
+      }
+      const pixelCount = bbox.width * bbox.height;
+      const edgeDensity = edgeSum / pixelCount;
+      const horizontalRatio = strongCount / pixelCount;
+      if (edgeDensity <= plateEdgeDensity || horizontalRatio <= plateStrongEdgeRatio) continue;
+
+      blobs.push({
+        bbox: { x: areaX + bbox.x, y: areaY + bbox.y, width: bbox.width, height: bbox.height },
+        score: edgeDensity * 0.6 + horizontalRatio * 0.4,
+        layout: aspectRatio >= TWO_ROW_MAX_ASPECT_RATIO ? 'one-row' : 'two-row',
+      });
+    }
+
+    return blobs;
+  }
+
+  /**
+   * Phân loại biển 1 dòng (biển dài xe ô tô) hay 2 dòng (biển vuông đuôi ô tô, xe máy).
+   * Biển 2 dòng có một dải ít cạnh ở giữa chiều cao, giữa hai dòng ký tự
+   */
+  async classifyPlateLayout(
+    features: ImageFeatures,
+    bbox: BoundingBox
+  ): Promise<{ layout: PlateLayout; layoutAgreement: number }> {
+    const aspectRatio = bbox.width / Math.max(1, bbox.height);
+    if (aspectRatio >= TWO_ROW_MAX_ASPECT_RATIO) {
+      return { layout: 'one-row', layoutAgreement: 1 };
+    }
+
+    const box = this.clipBox(bbox, features.width, features.height);
+    const rowProfile = tf.tidy(() => features.horizontalEdges
+      .slice([Math.floor(box.y), Math.floor(box.x)], [Math.max(1, Math.floor(box.height)), Math.max(1, Math.floor(box.width))])
+      .mean(1)
+    );
+    const profile = Array.from(await rowProfile.data());
+    rowProfile.dispose();
+
+    const bandMean = (from: number, to: number) => {
+      const band = profile.slice(Math.floor(profile.length * from), Math.ceil(profile.length * to));
+      return band.length > 0 ? band.reduce((sum, v) => sum + v, 0) / band.length : 0;
+    };
+    const upperRow = bandMean(0.15, 0.4);
+    const middleGap = bandMean(0.45, 0.55);
+    const lowerRow = bandMean(0.6, 0.85);
+    const rowStrength = Math.min(upperRow, lowerRow);
+
+    if (rowStrength <= 0) {
+      return { layout: 'one-row', layoutAgreement: 0 };
+    }
+
+    // 0 = không có khe giữa, 1 = khe giữa hoàn toàn trống
+    const gapDepth = Math.max(0, Math.min(1, 1 - middleGap / rowStrength));
+    return gapDepth >= TWO_ROW_MIN_GAP_DEPTH
+      ? { layout: 'two-row', layoutAgreement: gapDepth }
+      : { layout: 'one-row', layoutAgreement: 1 - gapDepth };
+  }
+
+  /**
+   * Phát hiện vùng logo. Logo nằm trên trục giữa xe, ngay phía trên biển số ở cả đầu và đuôi xe,
+   * nên lần lượt tìm phía trên biển số (plate), trên trục đối xứng trái/phải (symmetry) rồi ở
+   * vị trí mặc định của hồ sơ (profile); dùng dấu hiệu đầu tiên cho kết quả vượt ngưỡng.
+   * plate cùng toạ độ với features
    */
   async detectLogoRegion(
-    imageTensor: tf.Tensor3D,
-    imageWidth: number,
-    imageHeight: number,
-    vehicleRegion?: VehicleRegion | null
+    features: ImageFeatures,
+    vehicleRegion?: VehicleRegion | null,
+    profile: VehicleProfile = 'car',
+    plate: LicensePlateRegion | null = null
   ): Promise<LogoRegion | null> {
+    const { width: imageWidth, height: imageHeight } = features;
+    const settings = DETECTION_PROFILES[profile];
+    const { logoSearch } = settings;
+    const referenceWidth = this.profileReferenceWidth(settings, imageWidth, vehicleRegion);
     const tensorsToDispose: tf.Tensor[] = [];
 
     try {
-      const gray = imageTensor.mean(2);
-      tensorsToDispose.push(gray);
-      
-      const laplacian = tf.tensor2d([
-        [0, 1, 0],
-        [1, -4, 1],
-        [0, 1, 0]
-      ]);
-      tensorsToDispose.push(laplacian);
-      
-      const expanded = gray.expandDims(0).expandDims(-1);
-      const kernel = laplacian.expandDims(-1).expandDims(-1);
-      tensorsToDispose.push(expanded, kernel);
+      // Laplacian đã được chuẩn hóa về [0, 1] trong computeImageFeatures
+      const laplacianIntegral = tf.tidy(() => this.integralImage(features.laplacian));
+      tensorsToDispose.push(laplacianIntegral);
       
-      const response = tf.abs(tf.conv2d(expanded as tf.Tensor4D, kernel as tf.Tensor4D, 1, 'same')).squeeze();
-      tensorsToDispose.push(response);
+      // Xe nhìn ngang không có trục đối xứng trái/phải
+      const axisX = vehicleRegion && vehicleRegion.type !== 'side'
+        ? await this.findSymmetryAxis(features, vehicleRegion.bbox)
+        : null;
       
-      const responseData = await response.data();
-      const maxResponseTensor = (response as tf.Tensor2D).max();
-      tensorsToDispose.push(maxResponseTensor);
-      const maxResponseData = await maxResponseTensor.data();
-      const maxResponse = maxResponseData[0];
+      const searches: Array<{ cue: LogoCue; windows: LogoWindowSearch[] }> = [];
+      if (plate) {
+        searches.push({ cue: 'plate', windows: this.logoWindowsAbovePlate(plate, logoSearch, axisX) });
+      }
       
       let searchCenterX = imageWidth / 2;
       let searchCenterY = imageHeight * 0.3;
       let searchRadius = imageWidth * 0.3;
-      
       if (vehicleRegion) {
         searchCenterX = vehicleRegion.bbox.x + vehicleRegion.bbox.width / 2;
-        searchCenterY = vehicleRegion.bbox.y + vehicleRegion.bbox.height * 0.2;
-        searchRadius = vehicleRegion.bbox.width * 0.3;
+        searchCenterY = vehicleRegion.bbox.y + vehicleRegion.bbox.height * logoSearch.centerY;
+        searchRadius = vehicleRegion.bbox.width * logoSearch.radius;
       }
+      const logoSizes = logoSearch.sizes.map(ratio => referenceWidth * ratio);
       
-      const logoSizes = [
-        imageWidth * 0.06,
-        imageWidth * 0.08,
-        imageWidth * 0.1
-      ];
+      if (axisX !== null) {
+        // Tâm logo nằm trên trục, chỉ lệch một bước cửa sổ
+        searches.push({
+          cue: 'symmetry',
+          windows: this.logoWindowShapes(logoSizes, logoSearch.aspectRatios).map(({ width, height }) => ({
+            width,
+            height,
+            area: {
+              x: axisX - width * 0.75,
+              y: searchCenterY - searchRadius - height / 2,
+              width: width * 1.5,
+              height: searchRadius * 2 + height,
+            },
+          })),
+        });
+      }
       
-      let bestLogo: { bbox: BoundingBox; score: number } | null = null;
+      // Tâm logo chạy trong hình vuông bán kính searchRadius quanh điểm tìm kiếm
+      searches.push({
+        cue: 'profile',
+        windows: this.logoWindowShapes(logoSizes, logoSearch.aspectRatios).map(({ width, height }) => ({
+          width,
+          height,
+          area: {
+            x: searchCenterX - searchRadius - width / 2,
+            y: searchCenterY - searchRadius - height / 2,
+            width: searchRadius * 2 + width,
+            height: searchRadius * 2 + height,
+          },
+        })),
+      });
       
-      for (const logoSize of logoSizes) {
-        const halfSize = logoSize / 2;
-        
-        for (let y = searchCenterY - searchRadius; y < searchCenterY + searchRadius; y += logoSize * 0.5) {
-          for (let x = searchCenterX - searchRadius; x < searchCenterX + searchRadius; x += logoSize * 0.5) {
-            if (x < halfSize || y < halfSize || x > imageWidth - halfSize || y > imageHeight - halfSize) continue;
-            
-            let blobScore = 0;
-            let pixelCount = 0;
-            
-            for (let dy = -halfSize; dy < halfSize; dy++) {
-              for (let dx = -halfSize; dx < halfSize; dx++) {
-                const dist = Math.sqrt(dx * dx + dy * dy);
-                if (dist > halfSize) continue;
-                
-                const px = Math.floor(x + dx);
-                const py = Math.floor(y + dy);
-                if (px < 0 || py < 0 || px >= imageWidth || py >= imageHeight) continue;
-                
-                const idx = py * imageWidth + px;
-                blobScore += (responseData[idx] || 0) / maxResponse;
-                pixelCount++;
-              }
-            }
-            
-            if (pixelCount > 0) {
-              blobScore /= pixelCount;
-              
-              if (!bestLogo || blobScore > bestLogo.score) {
-                bestLogo = {
-                  bbox: {
-                    x: Math.floor(x - halfSize),
-                    y: Math.floor(y - halfSize),
-                    width: Math.floor(logoSize),
-                    height: Math.floor(logoSize)
-                  },
-                  score: blobScore
-                };
-              }
-            }
-          }
+      const minScore = features.thresholds.logoScore * logoSearch.minScoreFactor;
+      for (const { cue, windows } of searches) {
+        const bestLogo = await this.scanLogoWindows(laplacianIntegral, windows, imageWidth, imageHeight, tensorsToDispose);
+        if (bestLogo && bestLogo.score > minScore) {
+          return {
+            bbox: bestLogo.bbox,
+            confidence: Math.min(bestLogo.score * 3, 0.85) * LOGO_CUE_CONFIDENCE[cue],
+            cue,
+          };
         }
       }
       
-      if (bestLogo && bestLogo.score > 0.1) {
-        return {
-          bbox: bestLogo.bbox,
-          confidence: Math.min(bestLogo.score * 3, 0.85)
-        };
-      }
-      
       return null;
     } catch (error) {
       console.error('Logo detection error:', error);
@@ -333,94 +745,259 @@ class ImageProcessingService {
   }
 
   /**
-   * Phát hiện màu xe chủ đạo
+   * Cửa sổ logo phía trên biển số, kích thước và khoảng cách quy đổi từ mm theo chiều rộng biển.
+   * Trục giữa là trục đối xứng của xe nếu nó đi qua gần tâm biển, còn lại là tâm biển
+   */
+  private logoWindowsAbovePlate(
+    plate: LicensePlateRegion,
+    logoSearch: DetectionProfileSettings['logoSearch'],
+    axisX: number | null
+  ): LogoWindowSearch[] {
+    const { bbox } = plate;
+    const pixelsPerMm = bbox.width / logoSearch.plateWidthMm[plate.layout];
+    const plateCenterX = bbox.x + bbox.width / 2;
+    const centerX = axisX !== null && Math.abs(axisX - plateCenterX) <= bbox.width * PLATE_AXIS_TOLERANCE
+      ? axisX
+      : plateCenterX;
+    const [minGap, maxGap] = logoSearch.plateGapMm.map(gap => gap * pixelsPerMm);
+    
+    return this.logoWindowShapes(logoSearch.widthsMm.map(w => w * pixelsPerMm), logoSearch.aspectRatios, 'width')
+      .map(({ width, height }) => {
+        const tolerance = Math.max(width * 0.25, bbox.width * 0.05);
+        return {
+          width,
+          height,
+          area: {
+            x: centerX - width / 2 - tolerance,
+            y: bbox.y - maxGap - height,
+            width: width + tolerance * 2,
+            height: maxGap - minGap + height,
+          },
+        };
+      });
+  }
+
+  /**
+   * Các kích thước cửa sổ logo theo từng tỷ lệ rộng/cao. sizes là chiều rộng ('width')
+   * hoặc cạnh của hình vuông cùng diện tích ('area')
+   */
+  private logoWindowShapes(
+    sizes: number[],
+    aspectRatios: number[],
+    sizeMeaning: 'width' | 'area' = 'area'
+  ): Array<{ width: number; height: number }> {
+    return sizes.flatMap(size => aspectRatios.map(aspect => {
+      const width = sizeMeaning === 'width' ? size : size * Math.sqrt(aspect);
+      return { width, height: width / aspect };
+    }));
+  }
+
+  /**
+   * Cửa sổ có Laplacian trung bình cao nhất (logo nhiều chi tiết nhỏ) trong các vùng tìm
+   */
+  private async scanLogoWindows(
+    laplacianIntegral: tf.Tensor2D,
+    windows: LogoWindowSearch[],
+    imageWidth: number,
+    imageHeight: number,
+    tensorsToDispose: tf.Tensor[]
+  ): Promise<{ bbox: BoundingBox; score: number } | null> {
+    let bestLogo: { bbox: BoundingBox; score: number } | null = null;
+    
+    for (const { width, height, area } of windows) {
+      const grid = this.createWindowGrid(
+        this.clipBox(area, imageWidth, imageHeight),
+        width,
+        height,
+        width * 0.25,
+        height * 0.25
+      );
+      if (!grid) continue;
+      
+      const blobMap = this.windowMeans(laplacianIntegral, grid);
+      tensorsToDispose.push(blobMap);
+      const blobScores = await this.readScoreMap(blobMap);
+      
+      for (let row = 0; row < grid.rows; row++) {
+        for (let col = 0; col < grid.cols; col++) {
+          const blobScore = blobScores[row][col];
+          if (!bestLogo || blobScore > bestLogo.score) {
+            bestLogo = { bbox: this.gridWindowBox(grid, row, col), score: blobScore };
+          }
+        }
+      }
+    }
+    
+    return bestLogo;
+  }
+
+  /**
+   * Trục đối xứng trái/phải của xe (toạ độ x trên ảnh): đường dọc chia gradient hai bên
+   * giống nhau nhất, tìm trong 40% giữa vùng xe. null nếu xe không đủ đối xứng (nhìn chéo)
+   */
+  private async findSymmetryAxis(features: ImageFeatures, bbox: BoundingBox): Promise<number | null> {
+    const size = SYMMETRY_SAMPLE_SIZE;
+    const x = Math.max(0, Math.floor(bbox.x));
+    const y = Math.max(0, Math.floor(bbox.y));
+    const width = Math.max(1, Math.min(features.width - x, Math.round(bbox.width)));
+    const height = Math.max(1, Math.min(features.height - y, Math.round(bbox.height)));
+    
+    const sampled = tf.tidy(() => tf.image.resizeBilinear(
+      features.gradientMagnitude.slice([y, x], [height, width]).expandDims(-1) as tf.Tensor3D,
+      [size, size]
+    ));
+    const gradient = await sampled.data();
+    sampled.dispose();
+    
+    // So sánh cùng số cặp cột cho mọi vị trí trục để điểm đối xứng so được với nhau
+    const reach = Math.floor(size * 0.3);
+    let bestAxis = -1;
+    let bestSymmetry = 0;
+    // doubled = 2 x vị trí trục theo chỉ số cột; số lẻ là trục nằm giữa hai cột
+    for (let doubled = Math.floor(size * 0.6); doubled <= Math.ceil(size * 1.4); doubled++) {
+      const firstLeft = Math.floor((doubled - 1) / 2);
+      const firstRight = Math.ceil((doubled + 1) / 2);
+      if (firstLeft - reach + 1 < 0 || firstRight + reach - 1 >= size) continue;
+      
+      let difference = 0;
+      let total = 0;
+      for (let row = 0; row < size; row++) {
+        for (let i = 0; i < reach; i++) {
+          const left = gradient[row * size + firstLeft - i];
+          const right = gradient[row * size + firstRight + i];
+          difference += Math.abs(left - right);
+          total += left + right;
+        }
+      }
+      const symmetry = total > 0 ? 1 - difference / total : 0;
+      if (symmetry > bestSymmetry) {
+        bestSymmetry = symmetry;
+        bestAxis = doubled / 2;
+      }
+    }
+    
+    if (bestAxis < 0 || bestSymmetry < MIN_AXIS_SYMMETRY) return null;
+    return x + ((bestAxis + 0.5) * width) / size;
+  }
+
+  /**
+   * Mã băm cảm nhận của logo để gom các xe cùng logo trên thiết bị: vùng logo được chuyển
+   * sang ảnh xám và co về LOGO_HASH_SIZE x LOGO_HASH_SIZE (bỏ qua tỷ lệ rộng/cao), nên cùng một
+   * logo chụp ở khoảng cách, độ sáng khác nhau cho mã gần nhau. null nếu vùng logo quá nhỏ
+   */
+  async computeLogoHash(imageTensor: tf.Tensor3D, bbox: BoundingBox): Promise<string | null> {
+    const [height, width] = imageTensor.shape;
+    const box = this.clipBox(bbox, width, height);
+    if (box.width < MIN_LOGO_HASH_PIXELS || box.height < MIN_LOGO_HASH_PIXELS) return null;
+
+    const normalized = tf.tidy(() => {
+      const crop = imageTensor
+        .slice([Math.floor(box.y), Math.floor(box.x), 0], [Math.floor(box.height), Math.floor(box.width), 3])
+        .toFloat()
+        .mean(2, true) as tf.Tensor3D;
+      return tf.image.resizeBilinear(crop, [LOGO_HASH_SIZE, LOGO_HASH_SIZE]);
+    });
+    const gray = await normalized.data();
+    normalized.dispose();
+    return perceptualHash(gray, LOGO_HASH_SIZE);
+  }
+
+  /**
+   * Phát hiện bảng màu thân xe bằng k-means và màu chủ đạo.
+   * excludedAreas (biển số, logo) cùng toạ độ với imageTensor, không được tính vào màu xe.
+   * whiteReference là màu đo được của một vật trắng (nền biển số trắng) dùng để cân bằng trắng;
+   * nếu không có thì ước lượng nguồn sáng từ toàn cảnh
    */
   async detectVehicleColor(
     imageTensor: tf.Tensor3D,
-    vehicleRegion?: VehicleRegion | null
+    vehicleRegion?: VehicleRegion | null,
+    profile: VehicleProfile = 'car',
+    excludedAreas: BoundingBox[] = [],
+    whiteReference: { r: number; g: number; b: number } | null = null
   ): Promise<ColorInfo | null> {
     const tensorsToDispose: tf.Tensor[] = [];
     
     try {
       const [height, width] = imageTensor.shape;
       
-      let regionData: Float32Array | Int32Array | Uint8Array;
-      let regionWidth: number;
-      let regionHeight: number;
-      
+      let colorBox: BoundingBox;
       if (vehicleRegion) {
-        const { x, y, width: w, height: h } = vehicleRegion.bbox;
-        const normalized = imageTensor.div(255);
-        tensorsToDispose.push(normalized);
-        
-        const cropped = normalized.slice(
-          [Math.max(0, y), Math.max(0, x), 0],
-          [Math.min(h, height - y), Math.min(w, width - x), 3]
-        );
-        tensorsToDispose.push(cropped);
-        
-        regionData = await cropped.data();
-        regionWidth = Math.min(vehicleRegion.bbox.width, width - vehicleRegion.bbox.x);
-        regionHeight = Math.min(vehicleRegion.bbox.height, height - vehicleRegion.bbox.y);
+        // Chỉ lấy phần thân vỏ xe theo hồ sơ (VD: bỏ kính, bánh xe, người lái xe máy)
+        const { bbox } = vehicleRegion;
+        const area = DETECTION_PROFILES[profile].colorArea;
+        colorBox = this.clipBox({
+          x: bbox.x + bbox.width * area.left,
+          y: bbox.y + bbox.height * area.top,
+          width: bbox.width * (area.right - area.left),
+          height: bbox.height * (area.bottom - area.top),
+        }, width, height);
       } else {
-        const startY = Math.floor(height * 0.3);
-        const startX = Math.floor(width * 0.2);
-        const cropHeight = Math.floor(height * 0.4);
-        const cropWidth = Math.floor(width * 0.6);
-        
-        const cropped = imageTensor.slice([startY, startX, 0], [cropHeight, cropWidth, 3]).div(255);
-        tensorsToDispose.push(cropped);
-        
-        regionData = await cropped.data();
-        regionWidth = cropWidth;
-        regionHeight = cropHeight;
+        colorBox = { x: width * 0.2, y: height * 0.3, width: width * 0.6, height: height * 0.4 };
       }
+      const x = Math.floor(colorBox.x);
+      const y = Math.floor(colorBox.y);
+      const regionWidth = Math.max(1, Math.min(width - x, Math.round(colorBox.width)));
+      const regionHeight = Math.max(1, Math.min(height - y, Math.round(colorBox.height)));
       
-      const colorHistogram: { [key: string]: { count: number; r: number; g: number; b: number } } = {};
-      const pixelCount = regionWidth * regionHeight;
+      // Thu nhỏ vùng màu để k-means chạy nhanh trên JS
+      const sampleScale = Math.min(1, COLOR_SAMPLE_SIZE / Math.max(regionWidth, regionHeight));
+      const sampleWidth = Math.max(1, Math.round(regionWidth * sampleScale));
+      const sampleHeight = Math.max(1, Math.round(regionHeight * sampleScale));
+      const sampled = tf.tidy(() => tf.image.resizeBilinear(
+        imageTensor.slice([y, x, 0], [regionHeight, regionWidth, 3]).toFloat() as tf.Tensor3D,
+        [sampleHeight, sampleWidth]
+      ));
+      tensorsToDispose.push(sampled);
+      const regionData = await sampled.data();
       
-      for (let i = 0; i < regionData.length; i += 3) {
-        const r = Math.round(regionData[i] * 255);
-        const g = Math.round(regionData[i + 1] * 255);
-        const b = Math.round(regionData[i + 2] * 255);
-        
-        const qr = Math.floor(r / 32) * 32;
-        const qg = Math.floor(g / 32) * 32;
-        const qb = Math.floor(b / 32) * 32;
-        const key = `${qr},${qg},${qb}`;
-        
-        if (!colorHistogram[key]) {
-          colorHistogram[key] = { count: 0, r: 0, g: 0, b: 0 };
+      // Bỏ biển số, logo và điểm phản xạ gương; điểm quá tối (bóng, khe, lốp) để riêng
+      const bodyPixels: number[] = [];
+      const darkPixels: number[] = [];
+      for (let row = 0; row < sampleHeight; row++) {
+        const imageY = y + ((row + 0.5) * regionHeight) / sampleHeight;
+        for (let col = 0; col < sampleWidth; col++) {
+          const imageX = x + ((col + 0.5) * regionWidth) / sampleWidth;
+          const isExcluded = excludedAreas.some(area =>
+            imageX >= area.x && imageX < area.x + area.width &&
+            imageY >= area.y && imageY < area.y + area.height
+          );
+          if (isExcluded) continue;
+          
+          const i = (row * sampleWidth + col) * 3;
+          const r = regionData[i];
+          const g = regionData[i + 1];
+          const b = regionData[i + 2];
+          if (Math.min(r, g, b) >= COLOR_SPECULAR_LEVEL) continue;
+          (Math.max(r, g, b) < COLOR_DARK_LEVEL ? darkPixels : bodyPixels).push(r, g, b);
         }
-        colorHistogram[key].count++;
-        colorHistogram[key].r += r;
-        colorHistogram[key].g += g;
-        colorHistogram[key].b += b;
       }
       
-      let dominantColor = { r: 0, g: 0, b: 0, count: 0 };
+      // Phần lớn vùng thân đều tối thì đó là màu sơn (xe đen), không phải bóng
+      const isDarkBody = darkPixels.length > (darkPixels.length + bodyPixels.length) * DARK_BODY_RATIO;
+      const rawPixels = isDarkBody ? bodyPixels.concat(darkPixels) : bodyPixels;
+      if (rawPixels.length === 0) return null;
       
-      for (const key in colorHistogram) {
-        const color = colorHistogram[key];
-        if (color.count > dominantColor.count) {
-          dominantColor = {
-            r: Math.round(color.r / color.count),
-            g: Math.round(color.g / color.count),
-            b: Math.round(color.b / color.count),
-            count: color.count
-          };
-        }
-      }
+      // Đưa về màu dưới ánh sáng trắng trước khi đặt tên (đèn đường natri, bóng râm)
+      const whiteBalance = whiteReference
+        ? this.toWhiteBalance('plate', gainsFromWhiteReference(whiteReference, REFERENCE_WHITE_LEVEL))
+        : this.toWhiteBalance('scene', await this.estimateSceneGains(imageTensor, vehicleRegion?.bbox || colorBox));
+      const pixels = whiteBalance ? applyGains(rawPixels, whiteBalance.gains) : rawPixels;
       
-      const hsl = this.rgbToHsl(dominantColor.r, dominantColor.g, dominantColor.b);
-      const colorName = this.getColorName(hsl.h, hsl.s, hsl.l);
-      const hex = this.rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
+      const palette = this.buildPalette(kMeansColors(pixels, PALETTE_CLUSTERS), pixels.length / 3);
+      const [dominant, secondary] = palette;
       
       return {
-        dominant: hex,
-        name: colorName,
-        confidence: dominantColor.count / pixelCount,
-        rgb: { r: dominantColor.r, g: dominantColor.g, b: dominantColor.b }
+        dominant: dominant.hex,
+        colorId: dominant.colorId,
+        name: dominant.name,
+        // Tên màu chắc chắn và màu phủ từ nửa thân xe trở lên thì tin cậy hoàn toàn
+        confidence: dominant.confidence * Math.min(1, dominant.proportion / DOMINANT_MIN_PROPORTION),
+        rgb: dominant.rgb,
+        palette,
+        isTwoTone: !!secondary &&
+          secondary.proportion >= TWO_TONE_MIN_PROPORTION &&
+          !colorTaxonomyService.isSameFamily(dominant.colorId, secondary.colorId),
+        ...(whiteBalance ? { whiteBalance } : {}),
       };
     } catch (error) {
       console.error('Color detection error:', error);
@@ -430,6 +1007,296 @@ class ImageProcessingService {
     }
   }
 
+  /**
+   * Ước lượng hệ số cân bằng trắng từ toàn ảnh, bỏ vùng xe để màu sơn
+   * (VD: xe đỏ chiếm phần lớn ảnh) không bị coi là màu của nguồn sáng.
+   * Không có vùng xe thì dùng cả ảnh
+   */
+  async estimateSceneGains(imageTensor: tf.Tensor3D, vehicleBox?: BoundingBox): Promise<ChannelGains | null> {
+    const [height, width] = imageTensor.shape;
+    const sampleScale = Math.min(1, COLOR_SAMPLE_SIZE / Math.max(width, height));
+    const sampleWidth = Math.max(1, Math.round(width * sampleScale));
+    const sampleHeight = Math.max(1, Math.round(height * sampleScale));
+    const sampled = tf.tidy(() =>
+      tf.image.resizeBilinear(imageTensor.toFloat() as tf.Tensor3D, [sampleHeight, sampleWidth])
+    );
+    const sceneData = await sampled.data();
+    sampled.dispose();
+    
+    const scenePixels: number[] = [];
+    for (let row = 0; row < sampleHeight; row++) {
+      const imageY = ((row + 0.5) * height) / sampleHeight;
+      for (let col = 0; col < sampleWidth; col++) {
+        const imageX = ((col + 0.5) * width) / sampleWidth;
+        const insideVehicle = !!vehicleBox &&
+          imageX >= vehicleBox.x && imageX < vehicleBox.x + vehicleBox.width &&
+          imageY >= vehicleBox.y && imageY < vehicleBox.y + vehicleBox.height;
+        if (insideVehicle) continue;
+        const i = (row * sampleWidth + col) * 3;
+        scenePixels.push(sceneData[i], sceneData[i + 1], sceneData[i + 2]);
+      }
+    }
+    
+    // Xe chiếm gần hết ảnh: phần còn lại quá ít, đành dùng cả ảnh
+    const illuminant = estimateIlluminant(
+      scenePixels.length >= sceneData.length * MIN_SCENE_RATIO ? scenePixels : sceneData
+    );
+    return illuminant ? gainsFromIlluminant(illuminant) : null;
+  }
+
+  /**
+   * Bỏ qua cân bằng trắng khi ảnh gần như không ám màu để tránh đổi màu vô ích
+   */
+  private toWhiteBalance(reference: WhiteBalanceReference, gains: ChannelGains | null): WhiteBalanceInfo | null {
+    if (!gains) return null;
+    const cast = Math.max(Math.abs(gains.r - 1), Math.abs(gains.g - 1), Math.abs(gains.b - 1));
+    return cast >= MIN_COLOR_CAST ? { reference, gains } : null;
+  }
+
+  /**
+   * Gán các cụm k-means vào bảng màu và gộp các cụm cùng màu (cùng màu sơn ở chỗ sáng/tối khác nhau)
+   */
+  private buildPalette(clusters: ColorCluster[], pixelCount: number): PaletteColor[] {
+    const byColor = new Map<string, { r: number; g: number; b: number; count: number }>();
+    for (const cluster of clusters) {
+      const hsl = this.rgbToHsl(cluster.r, cluster.g, cluster.b);
+      const { color } = colorTaxonomyService.classify(hsl.h, hsl.s, hsl.l);
+      const merged = byColor.get(color.id) || { r: 0, g: 0, b: 0, count: 0 };
+      merged.r += cluster.r * cluster.count;
+      merged.g += cluster.g * cluster.count;
+      merged.b += cluster.b * cluster.count;
+      merged.count += cluster.count;
+      byColor.set(color.id, merged);
+    }
+    
+    return Array.from(byColor.values())
+      .map(merged => {
+        const rgb = {
+          r: Math.round(merged.r / merged.count),
+          g: Math.round(merged.g / merged.count),
+          b: Math.round(merged.b / merged.count),
+        };
+        // Màu trung bình sau khi gộp vẫn thuộc cùng vùng, nhưng có thể gần ranh giới hơn
+        const hsl = this.rgbToHsl(rgb.r, rgb.g, rgb.b);
+        const { color, certainty } = colorTaxonomyService.classify(hsl.h, hsl.s, hsl.l);
+        return {
+          hex: this.rgbToHex(rgb.r, rgb.g, rgb.b),
+          colorId: color.id,
+          name: color.name,
+          rgb,
+          proportion: merged.count / pixelCount,
+          confidence: certainty,
+        };
+      })
+      .sort((a, b) => b.proportion - a.proportion);
+  }
+
+  /**
+   * Chiều rộng dùng để quy đổi kích thước cửa sổ biển số/logo của hồ sơ ra pixel
+   */
+  private profileReferenceWidth(
+    settings: DetectionProfileSettings,
+    imageWidth: number,
+    vehicleRegion?: VehicleRegion | null
+  ): number {
+    if (settings.sizeReference === 'image') return imageWidth;
+    return vehicleRegion ? vehicleRegion.bbox.width : imageWidth * UNKNOWN_VEHICLE_WIDTH_RATIO;
+  }
+
+  /**
+   * Integral image kích thước (H+1)x(W+1), hàng/cột đầu bằng 0
+   * để tổng của mọi cửa sổ chỉ cần 4 phép tra
+   */
+  private integralImage(map: tf.Tensor2D): tf.Tensor2D {
+    return tf.tidy(() => map.cumsum(0).cumsum(1).pad([[1, 0], [1, 0]]) as tf.Tensor2D);
+  }
+
+  /**
+   * Tạo lưới cửa sổ trượt nằm trọn trong vùng tìm kiếm (đã cắt theo biên ảnh)
+   */
+  private createWindowGrid(
+    area: BoundingBox,
+    windowWidth: number,
+    windowHeight: number,
+    stepX: number,
+    stepY: number
+  ): WindowGrid | null {
+    const winW = Math.max(1, Math.floor(windowWidth));
+    const winH = Math.max(1, Math.floor(windowHeight));
+    const sx = Math.max(1, Math.floor(stepX));
+    const sy = Math.max(1, Math.floor(stepY));
+    const x = Math.max(0, Math.floor(area.x));
+    const y = Math.max(0, Math.floor(area.y));
+    const cols = Math.floor((Math.floor(area.x + area.width) - x - winW) / sx) + 1;
+    const rows = Math.floor((Math.floor(area.y + area.height) - y - winH) / sy) + 1;
+
+    if (cols <= 0 || rows <= 0) return null;
+
+    return { x, y, windowWidth: winW, windowHeight: winH, stepX: sx, stepY: sy, cols, rows };
+  }
+
+  /**
+   * Giá trị trung bình trong từng cửa sổ của lưới, tính trên backend TF.
+   * Chỉ score map nhỏ (rows x cols) cần đọc về JS
+   */
+  private windowMeans(integral: tf.Tensor2D, grid: WindowGrid): tf.Tensor2D {
+    return tf.tidy(() => {
+      const { x, y, windowWidth, windowHeight, stepX, stepY, cols, rows } = grid;
+      const corner = (offsetY: number, offsetX: number) => tf.stridedSlice(
+        integral,
+        [y + offsetY, x + offsetX],
+        [y + offsetY + (rows - 1) * stepY + 1, x + offsetX + (cols - 1) * stepX + 1],
+        [stepY, stepX]
+      ) as tf.Tensor2D;
+
+      const sums = corner(windowHeight, windowWidth)
+        .sub(corner(0, windowWidth))
+        .sub(corner(windowHeight, 0))
+        .add(corner(0, 0));
+
+      return sums.div(windowWidth * windowHeight) as tf.Tensor2D;
+    });
+  }
+
+  private gridWindowBox(grid: WindowGrid, row: number, col: number): BoundingBox {
+    return {
+      x: grid.x + col * grid.stepX,
+      y: grid.y + row * grid.stepY,
+      width: grid.windowWidth,
+      height: grid.windowHeight,
+    };
+  }
+
+  private async readScoreMap(scoreMap: tf.Tensor2D): Promise<number[][]> {
+    return scoreMap.array();
+  }
+
+  private clipBox(bbox: BoundingBox, imageWidth: number, imageHeight: number): BoundingBox {
+    const x = Math.max(0, bbox.x);
+    const y = Math.max(0, bbox.y);
+    return {
+      x,
+      y,
+      width: Math.max(0, Math.min(imageWidth, bbox.x + bbox.width) - x),
+      height: Math.max(0, Math.min(imageHeight, bbox.y + bbox.height) - y),
+    };
+  }
+
+  private convolve(input: tf.Tensor4D, kernel: tf.Tensor2D): tf.Tensor2D {
+    const kernel4d = kernel.expandDims(-1).expandDims(-1) as tf.Tensor4D;
+    return tf.conv2d(input, kernel4d, 1, 'same').squeeze([0, 3]) as tf.Tensor2D;
+  }
+
+  private normalizeByMax(tensor: tf.Tensor2D): tf.Tensor2D {
+    // Tránh chia cho 0 với ảnh phẳng (không có cạnh)
+    return tensor.div(tf.maximum(tensor.max(), 1e-6));
+  }
+
+  /**
+   * Phân loại màu nền và màu chữ của biển số để suy ra loại xe
+   * (trắng: cá nhân, vàng: kinh doanh, xanh: nhà nước, đỏ: quân đội).
+   * sceneGains (estimateSceneGains) bù ám màu nguồn sáng trước khi phân loại để biển trắng
+   * dưới đèn natri không thành biển vàng; màu nền/chữ trả về vẫn là màu đo được
+   */
+  async classifyPlateColors(
+    imageTensor: tf.Tensor3D,
+    plate: LicensePlateRegion,
+    sceneGains: ChannelGains | null = null
+  ): Promise<PlateColorInfo | null> {
+    const [height, width] = imageTensor.shape;
+
+    try {
+      // Bỏ viền ngoài để không lấy khung biển và nền xe
+      const margin = 0.1;
+      const box = this.clipBox({
+        x: plate.bbox.x + plate.bbox.width * margin,
+        y: plate.bbox.y + plate.bbox.height * margin,
+        width: plate.bbox.width * (1 - margin * 2),
+        height: plate.bbox.height * (1 - margin * 2),
+      }, width, height);
+      if (box.width < 2 || box.height < 2) return null;
+
+      const crop = imageTensor.slice(
+        [Math.floor(box.y), Math.floor(box.x), 0],
+        [Math.floor(box.height), Math.floor(box.width), 3]
+      );
+      const pixelData = await crop.data();
+      crop.dispose();
+
+      // Tách điểm ảnh thành 2 nhóm theo độ sáng: nhóm đông hơn là nền, nhóm còn lại là chữ
+      const pixelCount = pixelData.length / 3;
+      const stride = Math.max(1, Math.floor(pixelCount / 4000));
+      const luminances: number[] = [];
+      for (let i = 0; i < pixelCount; i += stride) {
+        luminances.push((pixelData[i * 3] + pixelData[i * 3 + 1] + pixelData[i * 3 + 2]) / 3);
+      }
+      const splitLuminance = luminances.reduce((sum, l) => sum + l, 0) / luminances.length;
+
+      const bright = { r: 0, g: 0, b: 0, count: 0 };
+      const dark = { r: 0, g: 0, b: 0, count: 0 };
+      for (let i = 0, k = 0; i < pixelCount; i += stride, k++) {
+        const group = luminances[k] >= splitLuminance ? bright : dark;
+        group.r += pixelData[i * 3];
+        group.g += pixelData[i * 3 + 1];
+        group.b += pixelData[i * 3 + 2];
+        group.count++;
+      }
+      if (bright.count === 0 || dark.count === 0) return null;
+
+      const [background, text] = bright.count >= dark.count ? [bright, dark] : [dark, bright];
+      const meanOf = (group: typeof bright) => ({
+        r: Math.round(group.r / group.count),
+        g: Math.round(group.g / group.count),
+        b: Math.round(group.b / group.count),
+      });
+      const backgroundRgb = meanOf(background);
+      const textRgb = meanOf(text);
+
+      const whiteBalance = this.toWhiteBalance('scene', sceneGains);
+      const balanced = (color: { r: number; g: number; b: number }) => {
+        if (!whiteBalance) return color;
+        const [r, g, b] = applyGains([color.r, color.g, color.b], whiteBalance.gains);
+        return { r, g, b };
+      };
+      const balancedBackground = balanced(backgroundRgb);
+      const balancedText = balanced(textRgb);
+      const backgroundHsl = this.rgbToHsl(balancedBackground.r, balancedBackground.g, balancedBackground.b);
+      const textHsl = this.rgbToHsl(balancedText.r, balancedText.g, balancedText.b);
+      const backgroundClass = this.getPlateColorClass(backgroundHsl.h, backgroundHsl.s, backgroundHsl.l);
+      const textClass = this.getPlateColorClass(textHsl.h, textHsl.s, textHsl.l);
+
+      let category: PlateCategory = 'unknown';
+      if (backgroundClass === 'yellow') category = 'commercial';
+      else if (backgroundClass === 'blue') category = 'government';
+      else if (backgroundClass === 'red') category = 'military';
+      else if (backgroundClass === 'white') category = textClass === 'red' ? 'diplomatic' : 'private';
+
+      // Độ tin cậy: tỷ lệ nền trong biển và độ tương phản nền/chữ
+      const backgroundRatio = background.count / (background.count + text.count);
+      const contrast = Math.abs(backgroundHsl.l - textHsl.l) / 100;
+
+      return {
+        category,
+        background: this.rgbToHex(backgroundRgb.r, backgroundRgb.g, backgroundRgb.b),
+        text: this.rgbToHex(textRgb.r, textRgb.g, textRgb.b),
+        confidence: category === 'unknown' ? 0 : Math.min(backgroundRatio * Math.min(contrast * 2, 1), 0.95),
+      };
+    } catch (error) {
+      console.error('Plate color classification error:', error);
+      return null;
+    }
+  }
+
+  private getPlateColorClass(h: number, s: number, l: number): 'white' | 'yellow' | 'blue' | 'red' | 'dark' | null {
+    if (s < 25 && l >= 55) return 'white';
+    if (l < 20) return 'dark';
+    if (s < 35) return null;
+    if ((h <= 20 || h >= 340) && l <= 70) return 'red';
+    if (h >= 35 && h <= 65 && l >= 35) return 'yellow';
+    if (h >= 190 && h <= 250) return 'blue';
+    return null;
+  }
+
   private rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
     r /= 255;
     g /= 255;
@@ -467,24 +1334,6 @@ class ImageProcessingService {
       return hex.length === 1 ? '0' + hex : hex;
     }).join('');
   }
-
-  private getColorName(h: number, s: number, l: number): string {
-    if (l >= 85 && s <= 15) return 'Trắng';
-    if (l <= 15) return 'Đen';
-    if (s <= 15 && l > 55 && l < 85) return 'Bạc';
-    if (s <= 15) return 'Xám';
-    
-    if ((h >= 0 && h <= 20) || h >= 340) return 'Đỏ';
-    if (h > 20 && h <= 45) return 'Cam';
-    if (h > 45 && h <= 65) return 'Vàng';
-    if (h > 65 && h <= 160) return 'Xanh lá';
-    if (h > 160 && h <= 200) return 'Xanh ngọc';
-    if (h > 200 && h <= 250) return 'Xanh dương';
-    if (h > 250 && h <= 290) return 'Tím';
-    if (h > 290 && h < 340) return 'Hồng';
-    
-    return 'Không xác định';
-  }
 }
 
 export const imageProcessingService = new ImageProcessingService();
@@ -0,0 +1,141 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+  ImageQualityReport,
+  LicensePlateRegion,
+  PlateLayout,
+  QualityIssue,
+  QualityMetrics,
+} from '../types/detection';
+
+// Phương sai Laplacian (theo độ phân giải gốc) dưới ngưỡng này là ảnh nhòe
+const MIN_SHARPNESS = 100;
+// Thu nhỏ ảnh làm cạnh nhòe dốc hơn: phương sai Laplacian tăng khoảng 1/scale^2.5 quanh ngưỡng nhòe
+// (1/scale^2 với ảnh rất nét, tới 1/scale^4 với ảnh rất nhòe), nên được quy đổi về độ phân giải gốc
+const SHARPNESS_SCALE_EXPONENT = 2.5;
+// Độ sáng trung bình chấp nhận được
+const MIN_BRIGHTNESS = 0.2;
+const MAX_BRIGHTNESS = 0.8;
+// Mức xám coi là đen kịt / cháy sáng, và tỷ lệ tối đa của mỗi loại
+const SHADOW_CLIP_LEVEL = 5;
+const HIGHLIGHT_CLIP_LEVEL = 250;
+const MAX_CLIPPING = 0.2;
+// Điểm ảnh gần trắng tuyệt đối trên biển số là do đèn/nắng phản chiếu
+const GLARE_LEVEL = 245;
+const MAX_PLATE_GLARE = 0.1;
+// Chiều cao biển tối thiểu để ký tự đủ lớn cho OCR (biển 2 dòng có ký tự thấp hơn một nửa)
+const MIN_PLATE_PIXEL_HEIGHT: Record<PlateLayout, number> = {
+  'one-row': 20,
+  'two-row': 32,
+};
+
+/**
+ * Service đánh giá chất lượng ảnh chụp: độ nét, phơi sáng, vùng mất chi tiết,
+ * lóa sáng và kích thước biển số
+ */
+class ImageQualityService {
+
+  /**
+   * gray là ảnh xám chưa qua tăng sáng, có thể đã thu nhỏ (workingScale = kích thước làm việc /
+   * kích thước gốc), box biển số luôn theo toạ độ ảnh gốc
+   */
+  async assessQuality(
+    gray: tf.Tensor2D,
+    plate: LicensePlateRegion | null,
+    workingScale: number = 1
+  ): Promise<ImageQualityReport> {
+    const [height, width] = gray.shape;
+
+    const [workingSharpness, brightness, shadowClipping, highlightClipping] = await Promise.all(
+      tf.tidy(() => {
+        const laplacianKernel = tf.tensor2d([
+          [0, 1, 0],
+          [1, -4, 1],
+          [0, 1, 0]
+        ]).expandDims(-1).expandDims(-1) as tf.Tensor4D;
+        const laplacian = tf.conv2d(
+          gray.expandDims(0).expandDims(-1) as tf.Tensor4D,
+          laplacianKernel,
+          1,
+          'valid'
+        );
+
+        return [
+          tf.moments(laplacian).variance,
+          gray.mean().div(255),
+          gray.lessEqual(SHADOW_CLIP_LEVEL).toFloat().mean(),
+          gray.greaterEqual(HIGHLIGHT_CLIP_LEVEL).toFloat().mean(),
+        ];
+      }).map(async tensor => {
+        const [value] = await tensor.data();
+        tensor.dispose();
+        return value;
+      })
+    );
+
+    let plateGlare: number | null = null;
+    let platePixelHeight: number | null = null;
+    if (plate) {
+      platePixelHeight = plate.bbox.height;
+
+      const x = Math.max(0, Math.floor(plate.bbox.x * workingScale));
+      const y = Math.max(0, Math.floor(plate.bbox.y * workingScale));
+      const plateWidth = Math.min(width - x, Math.round(plate.bbox.width * workingScale));
+      const plateHeight = Math.min(height - y, Math.round(plate.bbox.height * workingScale));
+      if (plateWidth > 0 && plateHeight > 0) {
+        const glare = tf.tidy(() =>
+          gray.slice([y, x], [plateHeight, plateWidth]).greaterEqual(GLARE_LEVEL).toFloat().mean()
+        );
+        [plateGlare] = await glare.data();
+        glare.dispose();
+      }
+    }
+
+    const metrics: QualityMetrics = {
+      sharpness: workingSharpness * Math.pow(workingScale, SHARPNESS_SCALE_EXPONENT),
+      brightness,
+      shadowClipping,
+      highlightClipping,
+      plateGlare,
+      platePixelHeight,
+    };
+    const issues = this.findIssues(metrics, plate?.layout);
+
+    return { isAcceptable: issues.length === 0, metrics, issues };
+  }
+
+  private findIssues(metrics: QualityMetrics, plateLayout?: PlateLayout): QualityIssue[] {
+    const issues: QualityIssue[] = [];
+
+    if (metrics.sharpness < MIN_SHARPNESS) {
+      issues.push({ code: 'motion-blur', message: 'Ảnh bị nhòe do rung tay hoặc xe đang chạy' });
+    }
+
+    if (metrics.brightness < MIN_BRIGHTNESS) {
+      issues.push({ code: 'underexposed', message: 'Ảnh quá tối' });
+    } else if (metrics.brightness > MAX_BRIGHTNESS) {
+      issues.push({ code: 'overexposed', message: 'Ảnh quá sáng' });
+    } else if (metrics.shadowClipping > MAX_CLIPPING || metrics.highlightClipping > MAX_CLIPPING) {
+      // Độ sáng trung bình ổn nhưng nhiều vùng đen kịt/cháy sáng (ngược sáng)
+      issues.push({ code: 'clipping', message: 'Nhiều vùng mất chi tiết do ngược sáng' });
+    }
+
+    if (metrics.plateGlare !== null && metrics.plateGlare > MAX_PLATE_GLARE) {
+      issues.push({ code: 'plate-glare', message: 'Biển số bị lóa sáng' });
+    }
+
+    if (metrics.platePixelHeight !== null && plateLayout) {
+      const minHeight = MIN_PLATE_PIXEL_HEIGHT[plateLayout];
+      if (metrics.platePixelHeight < minHeight) {
+        issues.push({
+          code: 'plate-too-small',
+          message: `Biển số quá nhỏ (${Math.round(metrics.platePixelHeight)}px, cần ít nhất ${minHeight}px), hãy lại gần hơn`,
+        });
+      }
+    }
+
+    return issues;
+  }
+}
+
+export const imageQualityService = new ImageQualityService();
+export default imageQualityService;
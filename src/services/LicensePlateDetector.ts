@@ -2,16 +2,84 @@ import * as tf from '@tensorflow/tfjs';
 import { bundleResourceIO, decodeJpeg } from '@tensorflow/tfjs-react-native';
 import * as FileSystem from 'expo-file-system';
 import { Detection } from '../types';
+import { nonMaxSuppression } from '../utils/geometry';
+import {
+  computeLetterbox,
+  decodeSsdOutput,
+  decodeYoloOutput,
+  DecodedBox,
+  generateSsdAnchors,
+  SsdAnchor,
+  SsdAnchorOptions,
+  SsdDecodeOptions,
+  unletterboxBox,
+} from '../utils/detectionDecoding';
+
+// Kiểu đầu ra của model biển số: YOLOv5 [1, N, 5+C], YOLOv8 [1, 4+C, N], SSD thô (box + điểm lớp)
+export type PlateModelFormat = 'yolov5' | 'yolov8' | 'ssd';
+
+export interface PlateModelConfig {
+  format: PlateModelFormat;
+  version: string;          // Phiên bản model, ghi vào nguồn của kết quả
+  inputSize: number;
+  scoreThreshold: number;
+  iouThreshold: number;
+  maxDetections: number;
+  plateClassIndex: number;
+  // Chỉ dùng với SSD. Không truyền anchors thì sinh theo anchorOptions
+  ssd?: Partial<SsdDecodeOptions> & {
+    anchors?: SsdAnchor[];
+    anchorOptions?: Partial<SsdAnchorOptions>;
+  };
+}
+
+// Model tải từ URL hoặc đóng gói trong app (require('./model.json'), require('./group1-shard1of1.bin'))
+export type PlateModelSource =
+  | { url: string }
+  | { modelJson: tf.io.ModelJSON; weightsId: number | number[] };
+
+const DEFAULT_MODEL_CONFIG: PlateModelConfig = {
+  format: 'yolov8',
+  version: '1.0.0',
+  inputSize: 640,
+  scoreThreshold: 0.35,
+  iouThreshold: 0.45,
+  maxDetections: 10,
+  plateClassIndex: 0,
+};
+
+const DEFAULT_SSD_ANCHOR_OPTIONS: Omit<SsdAnchorOptions, 'inputSize'> = {
+  strides: [16, 32, 64, 128, 256, 512],
+  aspectRatios: [1, 2, 0.5, 3, 1 / 3],
+  minScale: 0.2,
+  maxScale: 0.95,
+};
+
+const DEFAULT_SSD_DECODE_OPTIONS: Omit<SsdDecodeOptions, 'scoreThreshold'> = {
+  boxScales: [10, 10, 5, 5],
+  scoreActivation: 'sigmoid',
+  hasBackgroundClass: true,
+};
+
+// Tải model từ nguồn đã cấu hình lỗi (mất mạng, sai URL) thì chờ chừng này mới tải lại,
+// để các ảnh tiếp theo không cùng chờ hết thời gian kết nối
+const MODEL_RETRY_INTERVAL_MS = 60000;
+
+// Giá trị đệm letterbox (xám 114 như lúc huấn luyện YOLO)
+const LETTERBOX_PAD_VALUE = 114 / 255;
 
 // License plate detection model service
 class LicensePlateDetector {
   private model: tf.GraphModel | null = null;
+  private modelConfig: PlateModelConfig = DEFAULT_MODEL_CONFIG;
+  private modelSource: PlateModelSource | null = null;
+  private ssdAnchors: SsdAnchor[] | null = null;
+  // Kết quả kiểm tra đầu ra của model đang dùng: undefined là chưa kiểm tra, null là hợp lệ
+  private outputError: string | null | undefined;
+  // Thời điểm ensureModel tải lỗi lần gần nhất, null nếu chưa lỗi
+  private loadFailedAt: number | null = null;
   private isInitialized: boolean = false;
-  
-  // COCO-SSD classes - license plate is not in standard COCO, 
-  // but we can detect cars/vehicles and look for plates
-  private readonly VEHICLE_CLASSES = ['car', 'truck', 'bus', 'motorcycle'];
-  
+
   async initialize(): Promise<boolean> {
     try {
       // Wait for TensorFlow to be ready
@@ -28,9 +96,125 @@ class LicensePlateDetector {
     }
   }
 
-  async loadCustomModel(modelUrl: string): Promise<boolean> {
+  async loadCustomModel(modelUrl: string, config?: Partial<PlateModelConfig>): Promise<boolean> {
+    return this.loadModel({ url: modelUrl }, config);
+  }
+
+  /**
+   * Tải model đóng gói trong app qua bundleResourceIO, không cần kết nối mạng
+   */
+  async loadBundledModel(
+    modelJson: tf.io.ModelJSON,
+    weightsId: number | number[],
+    config?: Partial<PlateModelConfig>
+  ): Promise<boolean> {
+    return this.loadModel({ modelJson, weightsId }, config);
+  }
+
+  /**
+   * Lưu nguồn model để tải khi cần (xem ensureModel). Model đang tải (của nguồn/cấu hình cũ)
+   * bị giải phóng cùng anchors SSD và kết quả kiểm tra đầu ra của nó
+   */
+  setModelSource(source: PlateModelSource, config?: Partial<PlateModelConfig>): void {
+    if (this.model) {
+      this.model.dispose();
+      this.model = null;
+    }
+    this.modelSource = source;
+    this.modelConfig = { ...DEFAULT_MODEL_CONFIG, ...config };
+    this.ssdAnchors = null;
+    this.outputError = undefined;
+    this.loadFailedAt = null;
+  }
+
+  /**
+   * Đảm bảo model đã được tải từ nguồn đã cấu hình. Trả về false nếu chưa có nguồn hoặc tải lỗi;
+   * sau một lần tải lỗi, chỉ tải lại khi đã qua MODEL_RETRY_INTERVAL_MS
+   */
+  async ensureModel(): Promise<boolean> {
+    if (this.model) return true;
+    if (!this.modelSource) return false;
+    if (this.loadFailedAt !== null && Date.now() - this.loadFailedAt < MODEL_RETRY_INTERVAL_MS) {
+      return false;
+    }
+    const loaded = await this.loadModel(this.modelSource, this.modelConfig);
+    this.loadFailedAt = loaded ? null : Date.now();
+    return loaded;
+  }
+
+  hasModel(): boolean {
+    return this.model !== null;
+  }
+
+  getModelConfig(): PlateModelConfig {
+    return this.modelConfig;
+  }
+
+  /**
+   * Chạy thử model một lần trên ảnh trống để kiểm tra đầu ra khớp định dạng đã cấu hình
+   * (số giá trị mỗi box, số lớp, số anchor SSD). Trả về false nếu không khớp hoặc chưa có model
+   */
+  async validateModelOutput(): Promise<boolean> {
+    if (!this.model) return false;
+    if (this.outputError === undefined) {
+      const input = tf.zeros([1, this.modelConfig.inputSize, this.modelConfig.inputSize, 3]);
+      let outputs: tf.Tensor[] = [];
+      try {
+        const result = await this.model.executeAsync(input);
+        outputs = Array.isArray(result) ? result : [result];
+        this.outputError = this.checkOutputShapes(outputs);
+      } catch (error) {
+        this.outputError = `inference failed: ${error}`;
+      } finally {
+        input.dispose();
+        outputs.forEach(tensor => tensor.dispose());
+      }
+      if (this.outputError) {
+        console.error('Plate model output does not match config:', this.outputError);
+      }
+    }
+    return this.outputError === null;
+  }
+
+  private checkOutputShapes(outputs: tf.Tensor[]): string | null {
+    const config = this.modelConfig;
+    if (config.format === 'ssd') {
+      const layout = this.ssdOutputLayout(outputs);
+      if (typeof layout === 'string') return layout;
+      const hasBackground = config.ssd?.hasBackgroundClass ?? DEFAULT_SSD_DECODE_OPTIONS.hasBackgroundClass;
+      const classCount = layout.numClasses - (hasBackground ? 1 : 0);
+      return config.plateClassIndex < classCount
+        ? null
+        : `plate class ${config.plateClassIndex} out of ${classCount} classes`;
+    }
+
+    const { shape } = outputs[0];
+    if (shape.length !== 3 || shape[0] !== 1) {
+      return `expected [1, ...] output of rank 3, got [${shape.join(', ')}]`;
+    }
+    // YOLOv5 [1, N, 5+C], YOLOv8 [1, 4+C, N]
+    const valuesPerBox = config.format === 'yolov8' ? shape[1] : shape[2];
+    const classCount = valuesPerBox - (config.format === 'yolov5' ? 5 : 4);
+    return config.plateClassIndex < classCount
+      ? null
+      : `${valuesPerBox} values per box leaves no class ${config.plateClassIndex} for ${config.format}`;
+  }
+
+  private async loadModel(source: PlateModelSource, config?: Partial<PlateModelConfig>): Promise<boolean> {
     try {
-      this.model = await tf.loadGraphModel(modelUrl);
+      await tf.ready();
+      const model = 'url' in source
+        ? await tf.loadGraphModel(source.url)
+        : await tf.loadGraphModel(bundleResourceIO(source.modelJson, source.weightsId));
+
+      if (this.model) {
+        this.model.dispose();
+      }
+      this.model = model;
+      this.modelSource = source;
+      this.modelConfig = { ...DEFAULT_MODEL_CONFIG, ...config };
+      this.ssdAnchors = null;
+      this.outputError = undefined;
       console.log('Custom model loaded successfully');
       return true;
     } catch (error) {
@@ -74,6 +258,10 @@ class LicensePlateDetector {
       throw new Error('Detector not initialized. Call initialize() first.');
     }
 
+    if (this.model) {
+      return this.detectWithModel(imageTensor);
+    }
+
     const detections: Detection[] = [];
 
     try {
@@ -157,6 +345,144 @@ class LicensePlateDetector {
     return detections;
   }
 
+  /**
+   * Chạy model biển số: letterbox -> inference -> giải mã YOLO/SSD -> lọc điểm -> NMS
+   * -> đổi về toạ độ ảnh gốc
+   */
+  async detectWithModel(imageTensor: tf.Tensor3D): Promise<Detection[]> {
+    if (!this.model) {
+      throw new Error('Custom model not loaded. Call loadCustomModel() or loadBundledModel() first.');
+    }
+
+    const model = this.model;
+    const config = this.modelConfig;
+    const [imageHeight, imageWidth] = imageTensor.shape;
+    const letterbox = computeLetterbox(imageWidth, imageHeight, config.inputSize);
+
+    const input = tf.tidy(() => {
+      const resized = tf.image.resizeBilinear(
+        imageTensor.toFloat().div(255) as tf.Tensor3D,
+        [letterbox.resizedHeight, letterbox.resizedWidth]
+      );
+      return resized
+        .pad(
+          [
+            [letterbox.padY, config.inputSize - letterbox.resizedHeight - letterbox.padY],
+            [letterbox.padX, config.inputSize - letterbox.resizedWidth - letterbox.padX],
+            [0, 0],
+          ],
+          LETTERBOX_PAD_VALUE
+        )
+        .expandDims(0);
+    });
+
+    let outputs: tf.Tensor[] = [];
+    try {
+      const result = await model.executeAsync(input);
+      outputs = Array.isArray(result) ? result : [result];
+
+      const decoded = config.format === 'ssd'
+        ? await this.decodeSsd(outputs)
+        : await this.decodeYolo(outputs[0]);
+
+      const plates = decoded
+        .filter(box => box.classIndex === config.plateClassIndex)
+        .map(box => ({ ...box, bbox: unletterboxBox(box.bbox, letterbox, imageWidth, imageHeight) }))
+        .filter(box => box.bbox.width > 1 && box.bbox.height > 1);
+
+      return nonMaxSuppression(plates, config.iouThreshold, config.maxDetections).map(box => ({
+        bbox: [box.bbox.x, box.bbox.y, box.bbox.width, box.bbox.height] as [number, number, number, number],
+        class: 'license_plate',
+        score: box.score,
+      }));
+    } finally {
+      input.dispose();
+      outputs.forEach(tensor => tensor.dispose());
+    }
+  }
+
+  private async decodeYolo(output: tf.Tensor): Promise<DecodedBox[]> {
+    const config = this.modelConfig;
+
+    // YOLOv8 xuất [1, 4+C, N]; đưa về [N, 4+C] như YOLOv5
+    const rows = tf.tidy(() => {
+      const squeezed = output.squeeze([0]) as tf.Tensor2D;
+      return config.format === 'yolov8' ? squeezed.transpose() : squeezed;
+    });
+    const [numBoxes, valuesPerBox] = rows.shape as [number, number];
+    const data = await rows.data();
+    rows.dispose();
+
+    return decodeYoloOutput(
+      data,
+      numBoxes,
+      valuesPerBox,
+      config.format === 'yolov5',
+      config.inputSize,
+      config.scoreThreshold
+    );
+  }
+
+  /**
+   * Tách đầu ra SSD thành tensor hồi quy box và tensor điểm lớp, kiểm tra khớp với anchors.
+   * Trả về mô tả lỗi nếu không khớp
+   */
+  private ssdOutputLayout(outputs: tf.Tensor[]): string | {
+    boxTensor: tf.Tensor;
+    scoreTensor: tf.Tensor;
+    numClasses: number;
+    anchors: SsdAnchor[];
+  } {
+    const config = this.modelConfig;
+
+    // Tensor có chiều cuối = 4 là hồi quy box, tensor còn lại là điểm từng lớp
+    const boxIndex = outputs.findIndex(tensor => tensor.shape[tensor.shape.length - 1] === 4);
+    const boxTensor = outputs[boxIndex === -1 ? 0 : boxIndex];
+    const scoreTensor = outputs.find(tensor => tensor !== boxTensor);
+    if (!scoreTensor) {
+      return 'SSD model must output box regression and class scores';
+    }
+
+    const { anchors, anchorOptions } = config.ssd || {};
+    if (!this.ssdAnchors) {
+      this.ssdAnchors = anchors || generateSsdAnchors({
+        ...DEFAULT_SSD_ANCHOR_OPTIONS,
+        ...anchorOptions,
+        inputSize: config.inputSize,
+      });
+    }
+
+    const numClasses = scoreTensor.shape[scoreTensor.shape.length - 1] as number;
+    const numBoxes = boxTensor.size / 4;
+    if (numBoxes !== this.ssdAnchors.length) {
+      return `SSD anchors mismatch: model has ${numBoxes} boxes, ${this.ssdAnchors.length} anchors`;
+    }
+    if (scoreTensor.size !== numBoxes * numClasses) {
+      return `SSD scores mismatch: ${scoreTensor.size} scores for ${numBoxes} boxes x ${numClasses} classes`;
+    }
+
+    return { boxTensor, scoreTensor, numClasses, anchors: this.ssdAnchors };
+  }
+
+  private async decodeSsd(outputs: tf.Tensor[]): Promise<DecodedBox[]> {
+    const config = this.modelConfig;
+    const layout = this.ssdOutputLayout(outputs);
+    if (typeof layout === 'string') {
+      throw new Error(layout);
+    }
+
+    const ssd = config.ssd || {};
+    const { boxTensor, scoreTensor, numClasses, anchors } = layout;
+    const [boxData, scoreData] = await Promise.all([boxTensor.data(), scoreTensor.data()]);
+
+    return decodeSsdOutput(boxData, scoreData, anchors, numClasses, config.inputSize, {
+      boxScales: ssd.boxScales ?? DEFAULT_SSD_DECODE_OPTIONS.boxScales,
+      scoreActivation: ssd.scoreActivation ?? DEFAULT_SSD_DECODE_OPTIONS.scoreActivation,
+      hasBackgroundClass: ssd.hasBackgroundClass ?? DEFAULT_SSD_DECODE_OPTIONS.hasBackgroundClass,
+      scoreThreshold: config.scoreThreshold,
+    });
+  }
+
   // Simulated detection for demo purposes
   async detectSimulated(imageWidth: number, imageHeight: number): Promise<Detection[]> {
     // Simulate detection with random bounding box in typical plate location
@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LogoCluster, LogoLabel, VehicleDetectionResult } from '../types/detection';
+import { clusterHashes, hammingDistance } from '../utils/perceptualHash';
+
+const LABELS_STORAGE_KEY = 'logoClusterLabels';
+// Hai logo có mã băm khác nhau không quá số bit này (trên 64) được coi là cùng một logo
+const MAX_LOGO_HASH_DISTANCE = 10;
+
+/**
+ * Service gom các xe trong lịch sử theo logo (mã băm cảm nhận của vùng logo) và lưu nhãn
+ * người dùng đặt cho từng nhóm trên thiết bị. Nhãn gắn với mã băm chứ không gắn với nhóm,
+ * nên xe mới có logo giống sẽ tự nhận nhãn mà không cần gọi cloud
+ */
+class LogoClusterService {
+  private labels: LogoLabel[] = [];
+
+  /**
+   * Đọc các nhãn đã lưu. Gọi một lần khi khởi động ứng dụng
+   */
+  async loadLabels(): Promise<LogoLabel[]> {
+    try {
+      const stored = await AsyncStorage.getItem(LABELS_STORAGE_KEY);
+      this.labels = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading logo labels:', error);
+      this.labels = [];
+    }
+    return this.labels;
+  }
+
+  getLabels(): LogoLabel[] {
+    return this.labels;
+  }
+
+  /**
+   * Gom các xe có logo đã băm trong lịch sử thành nhóm, nhóm đông nhất trước.
+   * id của nhóm (mã đại diện) có thể đổi khi lịch sử thay đổi; để giữ một nhóm đã chọn,
+   * lưu một mã trong hashes rồi tìm lại nhóm chứa mã đó
+   */
+  clusterHistory(history: VehicleDetectionResult[]): LogoCluster[] {
+    const logos: Array<{ hash: string; resultId: string; vehicleId: string }> = [];
+    history.forEach(result => result.vehicles.forEach(vehicle => {
+      const hash = vehicle.logoRegion?.perceptualHash;
+      if (hash) logos.push({ hash, resultId: result.id, vehicleId: vehicle.id });
+    }));
+
+    const clusters: LogoCluster[] = clusterHashes(logos.map(logo => logo.hash), MAX_LOGO_HASH_DISTANCE)
+      .map(indices => {
+        const hashes = indices.map(i => logos[i].hash);
+        return {
+          id: this.representativeHash(hashes),
+          hashes,
+          members: indices.map(i => ({ resultId: logos[i].resultId, vehicleId: logos[i].vehicleId })),
+          label: null,
+        };
+      });
+
+    // Mỗi nhãn chỉ thuộc về nhóm gần nó nhất; nhóm nhận nhãn gần nhất trong các nhãn thuộc về nó
+    const labelDistances = new Map<LogoCluster, number>();
+    for (const stored of this.labels) {
+      const nearest = this.nearestCluster(stored.hash, clusters);
+      if (!nearest) continue;
+      const current = labelDistances.get(nearest.cluster);
+      if (current === undefined || nearest.distance < current) {
+        nearest.cluster.label = stored.label;
+        labelDistances.set(nearest.cluster, nearest.distance);
+      }
+    }
+    return clusters;
+  }
+
+  /**
+   * Đặt nhãn cho một nhóm, thay các nhãn cũ thuộc về nhóm này (không đụng tới nhãn của nhóm
+   * lân cận). clusters là toàn bộ kết quả clusterHistory chứa cluster. Nhãn rỗng là xóa nhãn
+   */
+  async setClusterLabel(cluster: LogoCluster, label: string, clusters: LogoCluster[]): Promise<LogoLabel[]> {
+    const kept = this.labels.filter(stored => this.nearestCluster(stored.hash, clusters)?.cluster !== cluster);
+    const trimmed = label.trim();
+    this.labels = trimmed ? [...kept, { hash: cluster.id, label: trimmed }] : kept;
+
+    try {
+      await AsyncStorage.setItem(LABELS_STORAGE_KEY, JSON.stringify(this.labels));
+    } catch (error) {
+      console.error('Error saving logo labels:', error);
+    }
+    return this.labels;
+  }
+
+  /**
+   * Nhóm có mã đại diện gần mã băm nhất, trong MAX_LOGO_HASH_DISTANCE
+   */
+  private nearestCluster(
+    hash: string,
+    clusters: LogoCluster[]
+  ): { cluster: LogoCluster; distance: number } | null {
+    let best: { cluster: LogoCluster; distance: number } | null = null;
+    for (const cluster of clusters) {
+      const distance = hammingDistance(hash, cluster.id);
+      if (distance <= MAX_LOGO_HASH_DISTANCE && (!best || distance < best.distance)) {
+        best = { cluster, distance };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Mã băm có tổng khoảng cách tới các mã khác trong nhóm nhỏ nhất
+   */
+  private representativeHash(hashes: string[]): string {
+    let best = hashes[0];
+    let bestTotal = Infinity;
+    for (const candidate of hashes) {
+      const total = hashes.reduce((sum, hash) => sum + hammingDistance(candidate, hash), 0);
+      if (total < bestTotal) {
+        bestTotal = total;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+}
+
+export const logoClusterService = new LogoClusterService();
+export default logoClusterService;
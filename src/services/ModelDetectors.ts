@@ -0,0 +1,143 @@
+import * as tf from '@tensorflow/tfjs';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { imageProcessingService } from './ImageProcessingService';
+import { licensePlateDetector } from './LicensePlateDetector';
+import { DetectionContext, Detector, PlateDetector, VehicleDetector } from './DetectorRegistry';
+import { Detection } from '../types';
+import {
+  LicensePlateRegion,
+  VehicleClass,
+  VehicleProfile,
+  VehicleRegion,
+  VEHICLE_CLASSES,
+} from '../types/detection';
+import { nonMaxSuppression } from '../utils/geometry';
+
+const COCO_SSD_BASE: cocoSsd.ObjectDetectionBaseModel = 'lite_mobilenet_v2';
+const COCO_SSD_MIN_SCORE = 0.3;
+// COCO-SSD chỉ NMS trong từng lớp; xe tải và ô tô hay chồng lên cùng một xe
+const COCO_SSD_CROSS_CLASS_IOU_THRESHOLD = 0.6;
+
+/**
+ * Chiến lược định vị xe bằng COCO-SSD, chỉ giữ các lớp phương tiện (car, truck, bus, motorcycle).
+ * Không tải được model (VD: không có mạng) thì registry quay về chiến lược edge-heuristic
+ */
+class CocoSsdVehicleDetector implements VehicleDetector {
+  readonly stage = 'vehicle' as const;
+  readonly name = 'coco-ssd';
+  readonly version = `${cocoSsd.version}/${COCO_SSD_BASE}`;
+
+  private model: cocoSsd.ObjectDetection | null = null;
+
+  async initialize(): Promise<boolean> {
+    try {
+      await tf.ready();
+      this.model = await cocoSsd.load({ base: COCO_SSD_BASE });
+      return true;
+    } catch (error) {
+      console.error('Failed to load COCO-SSD:', error);
+      return false;
+    }
+  }
+
+  async detectVehicles(context: DetectionContext, maxVehicles: number): Promise<VehicleRegion[]> {
+    if (!this.model) return [];
+
+    const objects = await this.model.detect(context.imageTensor, 20, COCO_SSD_MIN_SCORE);
+
+    const vehicles = objects
+      .filter(object => VEHICLE_CLASSES.includes(object.class as VehicleClass))
+      .map(object => {
+        const [x, y, width, height] = object.bbox;
+        return { bbox: { x, y, width, height }, score: object.score, vehicleClass: object.class as VehicleClass };
+      });
+
+    // Hướng xe được vehicleOrientationService xác định sau, ở đây chỉ là giá trị tạm
+    return nonMaxSuppression(vehicles, COCO_SSD_CROSS_CLASS_IOU_THRESHOLD, maxVehicles).map(vehicle => ({
+      type: 'front' as const,
+      bbox: vehicle.bbox,
+      confidence: vehicle.score,
+      vehicleClass: vehicle.vehicleClass,
+    }));
+  }
+}
+
+/**
+ * Chiến lược phát hiện biển số bằng GraphModel (YOLO/SSD) của licensePlateDetector.
+ * Nguồn model phải được cấu hình trước qua licensePlateDetector.setModelSource
+ */
+class GraphModelPlateDetector implements PlateDetector {
+  readonly stage = 'plate' as const;
+  readonly name = 'graph-model';
+
+  // Model chạy một lần trên toàn ảnh, các xe trong cùng ảnh dùng chung kết quả
+  private detections = new WeakMap<tf.Tensor3D, Promise<Detection[]>>();
+
+  get version(): string {
+    return licensePlateDetector.getModelConfig().version;
+  }
+
+  // Model có đầu ra không khớp cấu hình bị từ chối ngay khi tải, thay vì lỗi trên từng ảnh
+  async initialize(): Promise<boolean> {
+    return (await licensePlateDetector.initialize()) &&
+      (await licensePlateDetector.ensureModel()) &&
+      licensePlateDetector.validateModelOutput();
+  }
+
+  async detectPlates(
+    context: DetectionContext,
+    vehicleRegion: VehicleRegion | null,
+    profile: VehicleProfile,  // Model đã học mọi cỡ biển, không cần thông số theo kiểu xe
+    maxCandidates: number
+  ): Promise<LicensePlateRegion[]> {
+    // Lỗi của model được ném tiếp để registry chuyển sang chiến lược mặc định,
+    // và không được giữ lại để xe sau trong ảnh chạy lại model
+    let detections = this.detections.get(context.imageTensor);
+    if (!detections) {
+      const imageTensor = context.imageTensor;
+      detections = this.runModel(imageTensor);
+      this.detections.set(imageTensor, detections);
+      detections.catch(() => this.detections.delete(imageTensor));
+    }
+
+    const plates: LicensePlateRegion[] = [];
+    for (const detection of await detections) {
+      if (plates.length >= maxCandidates) break;
+
+      const [x, y, width, height] = detection.bbox;
+      if (vehicleRegion) {
+        const centerX = x + width / 2;
+        const centerY = y + height / 2;
+        const { bbox } = vehicleRegion;
+        if (
+          centerX < bbox.x || centerX > bbox.x + bbox.width ||
+          centerY < bbox.y || centerY > bbox.y + bbox.height
+        ) {
+          continue;
+        }
+      }
+
+      const plateBbox = { x, y, width, height };
+      const { layout } = await imageProcessingService.classifyPlateLayout(context.features, plateBbox);
+      plates.push({ bbox: plateBbox, confidence: detection.score, layout });
+    }
+
+    return plates;
+  }
+
+  /**
+   * Nguồn model có thể đổi sau khi chiến lược đã khởi tạo (setModelSource giải phóng model cũ),
+   * nên model được tải và kiểm tra lại khi cần trước mỗi lần chạy
+   */
+  private async runModel(imageTensor: tf.Tensor3D): Promise<Detection[]> {
+    if (!(await licensePlateDetector.ensureModel()) || !(await licensePlateDetector.validateModelOutput())) {
+      throw new Error('Plate model is not available for the configured source');
+    }
+    return licensePlateDetector.detectWithModel(imageTensor);
+  }
+}
+
+export const modelDetectors: Detector[] = [
+  new CocoSsdVehicleDetector(),
+  new GraphModelPlateDetector(),
+];
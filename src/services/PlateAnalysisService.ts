@@ -0,0 +1,294 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+  BoundingBox,
+  LicensePlateRegion,
+  PlateCharacter,
+  PlateLayout,
+  Point,
+} from '../types/detection';
+import {
+  applyHomography,
+  boundingBoxOfPoints,
+  computeHomography,
+  polygonArea,
+} from '../utils/geometry';
+import { otsuThreshold, labelConnectedComponents } from '../utils/binaryImage';
+import { encodeJpegBase64 } from '../utils/image';
+import { plateOcrService, SegmentedCharacter } from './PlateOcrService';
+
+// Kích thước ảnh biển số sau khi nắn, theo tỷ lệ biển thật
+export const RECTIFIED_PLATE_SIZE: Record<PlateLayout, { width: number; height: number }> = {
+  'one-row': { width: 240, height: 52 },
+  'two-row': { width: 180, height: 120 },
+};
+
+// Vùng quanh biển số được mở rộng để không cắt mất góc biển bị nghiêng
+const CORNER_SEARCH_MARGIN = 0.15;
+// Vùng tìm góc được thu nhỏ về tối đa chiều rộng này trước khi phân tích trên JS
+const CORNER_ANALYSIS_MAX_WIDTH = 256;
+// Số điểm ảnh chừa thêm quanh 4 góc biển khi cắt vùng để nắn phối cảnh
+const RECTIFY_CROP_PADDING = 2;
+
+// Biển số VN có 7-9 ký tự (VD: 30A-1234, 51F-123.45, 59-X1 123.45)
+const MIN_PLATE_CHARACTERS = 7;
+const MAX_PLATE_CHARACTERS = 9;
+
+/**
+ * Service phân tích bên trong vùng biển số đã phát hiện:
+ * tìm 4 góc biển, nắn phối cảnh về ảnh kích thước cố định, tách và đọc ký tự
+ */
+class PlateAnalysisService {
+
+  /**
+   * Chạy các bước phân tích và gắn kết quả vào biển số
+   */
+  async analyzePlate(imageTensor: tf.Tensor3D, plate: LicensePlateRegion): Promise<void> {
+    try {
+      const corners = (await this.estimatePlateCorners(imageTensor, plate.bbox)) || this.bboxCorners(plate.bbox);
+      plate.corners = corners;
+
+      const rectified = this.rectifyPlate(imageTensor, corners, plate.layout);
+      try {
+        plate.rectifiedImageBase64 = await encodeJpegBase64(rectified);
+
+        const { labels, width, height, characters } = await this.segmentCharacters(rectified, plate.layout);
+        const toImage = this.rectificationTransform(corners, plate.layout);
+        plate.characters = characters.map(character => this.toImageCharacter(character, toImage));
+        plate.confidence = this.adjustConfidenceByCharacterCount(plate.confidence, characters.length);
+
+        plate.ocr = plateOcrService.recognize(labels, width, height, characters) || undefined;
+      } finally {
+        rectified.dispose();
+      }
+    } catch (error) {
+      console.error('Plate analysis error:', error);
+    }
+  }
+
+  /**
+   * Thu box biển số (phát hiện trên ảnh thu nhỏ, đã đổi về toạ độ gốc) về sát 4 góc biển
+   * tìm được trên ảnh độ phân giải gốc
+   */
+  async refinePlateBox(imageTensor: tf.Tensor3D, plate: LicensePlateRegion): Promise<void> {
+    const corners = await this.estimatePlateCorners(imageTensor, plate.bbox);
+    if (corners) {
+      plate.bbox = boundingBoxOfPoints(corners);
+    }
+  }
+
+  /**
+   * Ước lượng 4 góc biển số (tứ giác) từ vùng nền biển liên thông lớn nhất.
+   * Trả về null nếu không tìm được tứ giác hợp lý
+   */
+  async estimatePlateCorners(
+    imageTensor: tf.Tensor3D,
+    bbox: BoundingBox
+  ): Promise<Point[] | null> {
+    const [imageHeight, imageWidth] = imageTensor.shape;
+
+    const x0 = Math.max(0, Math.floor(bbox.x - bbox.width * CORNER_SEARCH_MARGIN));
+    const y0 = Math.max(0, Math.floor(bbox.y - bbox.height * CORNER_SEARCH_MARGIN));
+    const x1 = Math.min(imageWidth, Math.ceil(bbox.x + bbox.width * (1 + CORNER_SEARCH_MARGIN)));
+    const y1 = Math.min(imageHeight, Math.ceil(bbox.y + bbox.height * (1 + CORNER_SEARCH_MARGIN)));
+    if (x1 - x0 < 4 || y1 - y0 < 4) return null;
+
+    const scale = Math.min(1, CORNER_ANALYSIS_MAX_WIDTH / (x1 - x0));
+    const width = Math.max(4, Math.round((x1 - x0) * scale));
+    const height = Math.max(4, Math.round((y1 - y0) * scale));
+
+    const grayTensor = tf.tidy(() => {
+      const crop = imageTensor.slice([y0, x0, 0], [y1 - y0, x1 - x0, 3]).toFloat();
+      return tf.image.resizeBilinear(crop, [height, width]).mean(2);
+    });
+    const gray = await grayTensor.data();
+    grayTensor.dispose();
+
+    const threshold = otsuThreshold(gray);
+
+    // Nền biển là nhóm sáng/tối chiếm đa số ở giữa vùng biển
+    let brightInCenter = 0;
+    let centerCount = 0;
+    for (let y = Math.floor(height * 0.35); y < Math.ceil(height * 0.65); y++) {
+      for (let x = Math.floor(width * 0.3); x < Math.ceil(width * 0.7); x++) {
+        if (gray[y * width + x] > threshold) brightInCenter++;
+        centerCount++;
+      }
+    }
+    const plateIsBright = brightInCenter * 2 >= centerCount;
+
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = (gray[i] > threshold) === plateIsBright ? 1 : 0;
+    }
+
+    const { components } = labelConnectedComponents(mask, width, height);
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const plateComponent = components
+      .filter(c =>
+        c.bbox.x <= centerX && c.bbox.x + c.bbox.width >= centerX &&
+        c.bbox.y <= centerY && c.bbox.y + c.bbox.height >= centerY
+      )
+      .sort((a, b) => b.area - a.area)[0];
+    if (!plateComponent) return null;
+
+    const { topLeft, topRight, bottomRight, bottomLeft } = plateComponent.corners;
+    const corners = [topLeft, topRight, bottomRight, bottomLeft].map(p => ({
+      x: x0 + (p.x + 0.5) / scale,
+      y: y0 + (p.y + 0.5) / scale,
+    }));
+
+    // Tứ giác quá nhỏ hoặc quá lớn so với vùng phát hiện thì không đáng tin
+    const areaRatio = polygonArea(corners) / Math.max(1, bbox.width * bbox.height);
+    if (areaRatio < 0.4 || areaRatio > 1.8) return null;
+
+    return corners;
+  }
+
+  /**
+   * Nắn phối cảnh vùng tứ giác về ảnh chữ nhật kích thước cố định theo kiểu biển.
+   * Người gọi chịu trách nhiệm dispose tensor trả về
+   */
+  rectifyPlate(imageTensor: tf.Tensor3D, corners: Point[], layout: PlateLayout): tf.Tensor3D {
+    const { width, height } = RECTIFIED_PLATE_SIZE[layout];
+    const [imageHeight, imageWidth] = imageTensor.shape;
+
+    // Chỉ nắn vùng quanh 4 góc (chừa điểm lân cận cho nội suy) thay vì cả ảnh gốc
+    const bounds = boundingBoxOfPoints(corners);
+    const x0 = Math.max(0, Math.min(imageWidth - 1, Math.floor(bounds.x) - RECTIFY_CROP_PADDING));
+    const y0 = Math.max(0, Math.min(imageHeight - 1, Math.floor(bounds.y) - RECTIFY_CROP_PADDING));
+    const x1 = Math.min(imageWidth, Math.max(x0 + 1, Math.ceil(bounds.x + bounds.width) + RECTIFY_CROP_PADDING));
+    const y1 = Math.min(imageHeight, Math.max(y0 + 1, Math.ceil(bounds.y + bounds.height) + RECTIFY_CROP_PADDING));
+    const transform = this.rectificationTransform(
+      corners.map(corner => ({ x: corner.x - x0, y: corner.y - y0 })),
+      layout
+    );
+
+    return tf.tidy(() => {
+      const input = imageTensor
+        .slice([y0, x0, 0], [y1 - y0, x1 - x0, 3])
+        .toFloat()
+        .expandDims(0) as tf.Tensor4D;
+      const warped = tf.image.transform(
+        input,
+        tf.tensor2d([transform], [1, 8]),
+        'bilinear',
+        'constant',
+        0,
+        [height, width]
+      );
+      return warped.squeeze([0]) as tf.Tensor3D;
+    });
+  }
+
+  /**
+   * Tách ký tự trên ảnh biển đã nắn: nhị phân hóa Otsu rồi lọc các vùng liên thông
+   * có kích thước của một ký tự. Biển 2 dòng được chia dòng theo nửa chiều cao
+   */
+  private async segmentCharacters(
+    rectified: tf.Tensor3D,
+    layout: PlateLayout
+  ): Promise<{ labels: Int32Array; width: number; height: number; characters: SegmentedCharacter[] }> {
+    const [height, width] = rectified.shape;
+    const grayTensor = tf.tidy(() => rectified.mean(2));
+    const gray = await grayTensor.data();
+    grayTensor.dispose();
+
+    const threshold = otsuThreshold(gray);
+    let brightCount = 0;
+    for (let i = 0; i < gray.length; i++) {
+      if (gray[i] > threshold) brightCount++;
+    }
+    // Ký tự là nhóm thiểu số (chữ đen trên nền trắng/vàng, chữ trắng trên nền xanh/đỏ)
+    const charactersAreBright = brightCount * 2 < gray.length;
+
+    // Bỏ viền ngoài để khung biển không dính vào ký tự
+    const marginX = Math.round(width * 0.02);
+    const marginY = Math.round(height * 0.04);
+    const mask = new Uint8Array(width * height);
+    for (let y = marginY; y < height - marginY; y++) {
+      for (let x = marginX; x < width - marginX; x++) {
+        const i = y * width + x;
+        mask[i] = (gray[i] > threshold) === charactersAreBright ? 1 : 0;
+      }
+    }
+
+    const rowCount = layout === 'two-row' ? 2 : 1;
+    const rowHeight = height / rowCount;
+    const { labels, components } = labelConnectedComponents(mask, width, height);
+
+    const characters = components
+      .filter(({ bbox, area }) => {
+        const aspectRatio = bbox.width / bbox.height;
+        const fillRatio = area / (bbox.width * bbox.height);
+        return (
+          bbox.height >= rowHeight * 0.35 &&
+          bbox.height <= rowHeight * 0.95 &&
+          aspectRatio >= 0.1 &&
+          aspectRatio <= 1.2 &&
+          fillRatio >= 0.15
+        );
+      })
+      .map(({ bbox, label }) => ({
+        bbox,
+        label,
+        row: Math.min(rowCount - 1, Math.floor((bbox.y + bbox.height / 2) / rowHeight)),
+      }))
+      .sort((a, b) => a.row - b.row || a.bbox.x - b.bbox.x);
+
+    return { labels, width, height, characters };
+  }
+
+  /**
+   * Ánh xạ toạ độ ảnh biển đã nắn -> toạ độ ảnh gốc
+   */
+  private rectificationTransform(corners: Point[], layout: PlateLayout): number[] {
+    const { width, height } = RECTIFIED_PLATE_SIZE[layout];
+    const target: Point[] = [
+      { x: 0, y: 0 },
+      { x: width - 1, y: 0 },
+      { x: width - 1, y: height - 1 },
+      { x: 0, y: height - 1 },
+    ];
+
+    // tf.image.transform cũng dùng chiều ánh xạ ảnh đầu ra -> ảnh đầu vào
+    return computeHomography(target, corners);
+  }
+
+  private toImageCharacter(character: SegmentedCharacter, toImage: number[]): PlateCharacter {
+    const { x, y, width, height } = character.bbox;
+    const corners = [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height },
+    ].map(p => applyHomography(toImage, p));
+
+    return { bbox: boundingBoxOfPoints(corners), row: character.row };
+  }
+
+  /**
+   * Vùng thật sự là biển số khi có 7-9 ký tự; càng lệch càng giảm độ tin cậy
+   */
+  private adjustConfidenceByCharacterCount(confidence: number, characterCount: number): number {
+    if (characterCount >= MIN_PLATE_CHARACTERS && characterCount <= MAX_PLATE_CHARACTERS) {
+      return Math.min(confidence * 1.15, 0.95);
+    }
+    const distance = characterCount < MIN_PLATE_CHARACTERS
+      ? MIN_PLATE_CHARACTERS - characterCount
+      : characterCount - MAX_PLATE_CHARACTERS;
+    return confidence * Math.max(0.5, 1 - distance * 0.08);
+  }
+
+  private bboxCorners(bbox: BoundingBox): Point[] {
+    return [
+      { x: bbox.x, y: bbox.y },
+      { x: bbox.x + bbox.width, y: bbox.y },
+      { x: bbox.x + bbox.width, y: bbox.y + bbox.height },
+      { x: bbox.x, y: bbox.y + bbox.height },
+    ];
+  }
+}
+
+export const plateAnalysisService = new PlateAnalysisService();
+export default plateAnalysisService;
@@ -0,0 +1,149 @@
+import {
+  BoundingBox,
+  PlateOcrCharacter,
+  PlateOcrResult,
+} from '../types/detection';
+import {
+  PLATE_FONT_TEMPLATES,
+  PLATE_GLYPH_HEIGHT,
+  PLATE_GLYPH_WIDTH,
+} from './plateFontTemplates';
+import { PLATE_DIGITS, PLATE_LETTERS, plateCharacterSets } from '../utils/plateText';
+
+/**
+ * Ký tự đã tách trên ảnh biển đã nắn (toạ độ trong ảnh nắn)
+ */
+export interface SegmentedCharacter {
+  bbox: BoundingBox;
+  row: number;
+  label: number;       // Nhãn vùng liên thông trong ảnh nhãn
+}
+
+/**
+ * Service đọc biển số trên thiết bị bằng so khớp mẫu ký tự.
+ * Kết quả chỉ mang tính tham khảo khi không có kết nối tới cloud
+ */
+class PlateOcrService {
+  private templates: Array<{ char: string; pixels: Float32Array }>;
+
+  constructor() {
+    this.templates = Object.keys(PLATE_FONT_TEMPLATES).map(char => ({
+      char,
+      pixels: Float32Array.from(
+        PLATE_FONT_TEMPLATES[char].join(''),
+        cell => (cell === '#' ? 1 : 0)
+      ),
+    }));
+  }
+
+  /**
+   * Đọc các ký tự đã tách. Bộ ký tự được phép ở từng vị trí lấy theo các định dạng biển
+   * (dân sự, quân đội, ngoại giao) có cùng số ký tự; đọc theo từng định dạng và giữ cách đọc
+   * tin cậy nhất. Không định dạng nào khớp số ký tự thì mọi vị trí nhận cả số và chữ
+   */
+  recognize(
+    labels: Int32Array,
+    width: number,
+    height: number,
+    characters: SegmentedCharacter[]
+  ): PlateOcrResult | null {
+    if (characters.length === 0) return null;
+
+    const glyphs = characters.map(character => this.sampleGlyph(labels, width, height, character));
+    const patterns = plateCharacterSets(characters.length);
+    if (patterns.length === 0) {
+      patterns.push(characters.map(() => PLATE_DIGITS + PLATE_LETTERS));
+    }
+
+    let recognized: PlateOcrCharacter[] = [];
+    let confidence = -1;
+    for (const allowed of patterns) {
+      const reading = glyphs.map((glyph, index) => this.matchGlyph(glyph, allowed[index]));
+      const readingConfidence = reading.reduce((sum, c) => sum + c.confidence, 0) / reading.length;
+      if (readingConfidence > confidence) {
+        recognized = reading;
+        confidence = readingConfidence;
+      }
+    }
+
+    let plateText = '';
+    characters.forEach((character, index) => {
+      if (index > 0 && character.row !== characters[index - 1].row) plateText += ' ';
+      plateText += recognized[index].char;
+    });
+
+    return { plateText, characters: recognized, confidence };
+  }
+
+  /**
+   * Lấy mẫu ký tự về lưới 5x9 (tỷ lệ phủ nét chữ mỗi ô), giữ nguyên tỷ lệ khung hình
+   * và căn giữa để các ký tự hẹp như "1" không bị kéo giãn
+   */
+  private sampleGlyph(
+    labels: Int32Array,
+    width: number,
+    height: number,
+    character: SegmentedCharacter
+  ): Float32Array {
+    const { bbox, label } = character;
+    const cellSize = Math.max(bbox.height / PLATE_GLYPH_HEIGHT, bbox.width / PLATE_GLYPH_WIDTH);
+    const originX = bbox.x + bbox.width / 2 - (cellSize * PLATE_GLYPH_WIDTH) / 2;
+    const originY = bbox.y + bbox.height / 2 - (cellSize * PLATE_GLYPH_HEIGHT) / 2;
+
+    const glyph = new Float32Array(PLATE_GLYPH_WIDTH * PLATE_GLYPH_HEIGHT);
+    for (let gy = 0; gy < PLATE_GLYPH_HEIGHT; gy++) {
+      const y0 = Math.max(0, Math.floor(originY + gy * cellSize));
+      const y1 = Math.min(height, Math.max(y0 + 1, Math.floor(originY + (gy + 1) * cellSize)));
+
+      for (let gx = 0; gx < PLATE_GLYPH_WIDTH; gx++) {
+        const x0 = Math.max(0, Math.floor(originX + gx * cellSize));
+        const x1 = Math.min(width, Math.max(x0 + 1, Math.floor(originX + (gx + 1) * cellSize)));
+
+        let filled = 0;
+        let total = 0;
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            if (labels[y * width + x] === label) filled++;
+            total++;
+          }
+        }
+        glyph[gy * PLATE_GLYPH_WIDTH + gx] = total > 0 ? filled / total : 0;
+      }
+    }
+
+    return glyph;
+  }
+
+  /**
+   * So khớp với các mẫu được phép; độ tin cậy giảm khi mẫu tốt nhì quá sát mẫu tốt nhất
+   */
+  private matchGlyph(glyph: Float32Array, allowed: string): PlateOcrCharacter {
+    let best = { char: '?', score: 0 };
+    let secondScore = 0;
+
+    for (const template of this.templates) {
+      if (!allowed.includes(template.char)) continue;
+
+      let difference = 0;
+      for (let i = 0; i < glyph.length; i++) {
+        difference += Math.abs(glyph[i] - template.pixels[i]);
+      }
+      const score = 1 - difference / glyph.length;
+
+      if (score > best.score) {
+        secondScore = best.score;
+        best = { char: template.char, score };
+      } else if (score > secondScore) {
+        secondScore = score;
+      }
+    }
+
+    const margin = best.score - secondScore;
+    const confidence = best.score * Math.min(1, 0.6 + margin * 4);
+
+    return { char: best.char, confidence };
+  }
+}
+
+export const plateOcrService = new PlateOcrService();
+export default plateOcrService;
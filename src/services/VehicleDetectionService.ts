@@ -1,13 +1,48 @@
 import * as tf from '@tensorflow/tfjs';
 import * as FileSystem from 'expo-file-system';
 import { decodeJpeg } from '@tensorflow/tfjs-react-native';
-import { imageProcessingService } from './ImageProcessingService';
+import { imageProcessingService, ImageFeatures } from './ImageProcessingService';
+import { plateAnalysisService } from './PlateAnalysisService';
+import { vehicleOrientationService } from './VehicleOrientationService';
+import { imageQualityService } from './ImageQualityService';
+import { imageEnhancementService } from './ImageEnhancementService';
+import { colorTaxonomyService } from './ColorTaxonomyService';
+import {
+  detectorRegistry,
+  DetectionContext,
+  DetectorsByStage,
+  DEFAULT_DETECTOR_NAME,
+} from './DetectorRegistry';
+import { heuristicDetectors } from './HeuristicDetectors';
+import { modelDetectors } from './ModelDetectors';
+import { encodeJpegBase64 } from '../utils/image';
+import { scaleBoundingBox } from '../utils/geometry';
 import {
   VehicleDetectionResult,
   CloudUploadPayload,
   ProcessingConfig,
+  DetectedVehicle,
+  VehicleRegion,
+  LicensePlateRegion,
+  VehicleBoundingBoxes,
+  DetectorStage,
+  DetectorComparison,
+  DetectorOutput,
+  DetectionSource,
+  DEFAULT_DETECTION_THRESHOLDS,
+  ImageEnhancementInfo,
+  VehicleProfile,
 } from '../types/detection';
 
+// Độ tin cậy phân loại màu biển tối thiểu để dùng nền biển trắng làm chuẩn cân bằng trắng
+const MIN_WHITE_REFERENCE_CONFIDENCE = 0.5;
+
+// Hệ số đổi toạ độ ảnh làm việc (đã thu nhỏ) sang toạ độ ảnh gốc theo từng trục
+interface WorkingScale {
+  x: number;
+  y: number;
+}
+
 /**
  * Main service để xử lý toàn bộ flow phát hiện xe
  */
@@ -16,12 +51,28 @@ class VehicleDetectionService {
     minVehicleConfidence: 0.5,
     minPlateConfidence: 0.4,
     minLogoConfidence: 0.3,
+    maxVehicles: 3,
+    maxPlateCandidates: 3,
     autoUploadToCloud: false,
     cloudEndpoint: 'https://your-cloud-api.com/process',
+    detectors: {
+      vehicle: DEFAULT_DETECTOR_NAME,
+      plate: DEFAULT_DETECTOR_NAME,
+      logo: DEFAULT_DETECTOR_NAME,
+      color: DEFAULT_DETECTOR_NAME,
+    },
+    vehicleProfile: 'auto',
+    enhancement: 'auto',
+    thresholds: DEFAULT_DETECTION_THRESHOLDS,
+    workingResolution: 960,
   };
 
   private isInitialized: boolean = false;
 
+  constructor() {
+    [...heuristicDetectors, ...modelDetectors].forEach(detector => detectorRegistry.register(detector));
+  }
+
   async initialize(): Promise<boolean> {
     try {
       await tf.ready();
@@ -34,8 +85,18 @@ class VehicleDetectionService {
     }
   }
 
-  setConfig(config: Partial<ProcessingConfig>): void {
-    this.config = { ...this.config, ...config };
+  setConfig(
+    config: Partial<Omit<ProcessingConfig, 'detectors' | 'thresholds'>> & {
+      detectors?: Partial<ProcessingConfig['detectors']>;
+      thresholds?: Partial<ProcessingConfig['thresholds']>;
+    }
+  ): void {
+    this.config = {
+      ...this.config,
+      ...config,
+      detectors: { ...this.config.detectors, ...config.detectors },
+      thresholds: { ...this.config.thresholds, ...config.thresholds },
+    };
   }
 
   /**
@@ -50,7 +111,11 @@ class VehicleDetectionService {
     }
 
     let imageTensor: tf.Tensor3D | null = null;
+    let workingTensor: tf.Tensor3D | null = null;
+    let features: ImageFeatures | null = null;
+    let qualityGray: tf.Tensor2D | null = null;
     let imageBase64: string | undefined;
+    let enhancement: ImageEnhancementInfo | null = null;
     let imageWidth = 0;
     let imageHeight = 0;
 
@@ -67,61 +132,102 @@ class VehicleDetectionService {
       [imageHeight, imageWidth] = imageTensor.shape.slice(0, 2);
       console.log(`Processing image: ${imageWidth}x${imageHeight}`);
 
-      // 1. Phát hiện vùng xe
-      const vehicleRegion = await imageProcessingService.detectVehicleRegion(
-        imageTensor,
-        imageWidth,
-        imageHeight
-      );
-      console.log('Vehicle region:', vehicleRegion);
+      // Các detector chạy trên ảnh thu nhỏ về độ phân giải làm việc
+      workingTensor = this.toWorkingResolution(imageTensor);
+      const [workingHeight, workingWidth] = workingTensor.shape;
+      const toOriginal: WorkingScale = { x: imageWidth / workingWidth, y: imageHeight / workingHeight };
+      if (workingTensor !== imageTensor) {
+        console.log(`Working resolution: ${workingWidth}x${workingHeight}`);
+      }
 
-      // 2. Phát hiện biển số
-      const licensePlate = await imageProcessingService.detectLicensePlateRegion(
-        imageTensor,
-        imageWidth,
-        imageHeight,
-        vehicleRegion
-      );
-      console.log('License plate:', licensePlate);
+      // Chất lượng đo trên ảnh chưa tăng sáng: gamma che ảnh thiếu sáng, giảm lóa che vùng cháy sáng
+      // và CLAHE làm tăng nhiễu (Laplacian) che ảnh nhòe
+      const rawWorking = workingTensor;
+      qualityGray = tf.tidy(() => rawWorking.toFloat().mean(2) as tf.Tensor2D);
 
-      // 3. Phát hiện logo
-      const logoRegion = await imageProcessingService.detectLogoRegion(
-        imageTensor,
-        imageWidth,
-        imageHeight,
-        vehicleRegion
+      // Tăng sáng/giảm lóa ảnh chụp đêm trên ảnh làm việc; biển số vẫn được phân tích trên ảnh gốc.
+      // Ảnh đã xử lý chỉ thay ảnh gửi lên cloud khi nó thực sự tốt hơn
+      if (this.config.enhancement === 'auto') {
+        const enhanced = await imageEnhancementService.enhance(workingTensor);
+        if (enhanced.info) {
+          if (workingTensor !== imageTensor) {
+            workingTensor.dispose();
+          }
+          workingTensor = enhanced.image;
+          enhancement = enhanced.info;
+          if (enhancement.improved) {
+            imageBase64 = await encodeJpegBase64(workingTensor, 90);
+          }
+          console.log('Image enhanced:', enhancement);
+        }
+      }
+
+      // 0. Tính đặc trưng ảnh dùng chung cho mọi detector
+      features = await imageProcessingService.computeImageFeatures(workingTensor, this.config.thresholds);
+      const context: DetectionContext = { imageTensor: workingTensor, features };
+      const detectorComparisons: DetectorComparison[] = [];
+
+      // 1. Phát hiện các vùng xe
+      const vehicleRegions = await this.runStage('vehicle', null, detectorComparisons, detector =>
+        detector.detectVehicles(context, this.config.maxVehicles)
       );
-      console.log('Logo region:', logoRegion);
 
-      // 4. Phát hiện màu xe
-      const vehicleColor = await imageProcessingService.detectVehicleColor(
-        imageTensor,
-        vehicleRegion
+      // Xác định hướng xe (đầu/đuôi/thân) cho mọi chiến lược phát hiện xe
+      for (const region of vehicleRegions) {
+        const orientation = await vehicleOrientationService.classifyOrientation(workingTensor, features, region.bbox);
+        region.type = orientation.type;
+        region.orientationConfidence = orientation.confidence;
+      }
+      console.log('Vehicle regions:', vehicleRegions);
+
+      // 2-4. Biển số, logo và màu cho từng xe.
+      // Không tìm thấy xe thì vẫn tìm trên toàn ảnh như một xe không rõ vùng
+      const regions: Array<VehicleRegion | null> = vehicleRegions.length > 0 ? vehicleRegions : [null];
+      const vehicles: DetectedVehicle[] = [];
+      for (let index = 0; index < regions.length; index++) {
+        vehicles.push(await this.detectVehicleDetails(
+          context, imageTensor, toOriginal, regions[index], index, detectorComparisons
+        ));
+      }
+      detectorComparisons.forEach(comparison => this.scaleToOriginal(comparison.output, toOriginal));
+
+      const primaryVehicle = vehicles[0];
+
+      // 5. Chất lượng ảnh: độ nét, phơi sáng, lóa và kích thước biển số của xe chính
+      const quality = await imageQualityService.assessQuality(
+        qualityGray,
+        primaryVehicle.licensePlate,
+        workingWidth / imageWidth
       );
-      console.log('Vehicle color:', vehicleColor);
 
       const processingTimeMs = Date.now() - startTime;
 
-      // Kiểm tra xem có đủ thông tin để gửi cloud không
-      const isReadyForCloud = !!(
-        (vehicleRegion && vehicleRegion.confidence >= this.config.minVehicleConfidence) ||
-        (licensePlate && licensePlate.confidence >= this.config.minPlateConfidence)
-      );
+      // Kiểm tra xem có đủ thông tin và đủ chất lượng để gửi cloud không
+      const isReadyForCloud = quality.isAcceptable && vehicles.some(vehicle => !!(
+        (vehicle.region && vehicle.region.confidence >= this.config.minVehicleConfidence) ||
+        (vehicle.licensePlate && vehicle.licensePlate.confidence >= this.config.minPlateConfidence)
+      ));
 
       const result: VehicleDetectionResult = {
         id,
         timestamp: new Date(),
         imageUri,
         imageBase64,
-        vehicleRegion,
-        licensePlate,
-        logoRegion,
-        vehicleColor,
+        vehicles,
+        vehicleRegion: primaryVehicle.region,
+        licensePlate: primaryVehicle.licensePlate,
+        licensePlateCandidates: primaryVehicle.licensePlateCandidates,
+        logoRegion: primaryVehicle.logoRegion,
+        vehicleColor: primaryVehicle.color,
         imageWidth,
         imageHeight,
         processingTimeMs,
+        enhancement,
+        colorTaxonomyVersion: colorTaxonomyService.getTaxonomy().version,
+        quality,
         isReadyForCloud,
         cloudUploadStatus: 'pending',
+        detectorComparisons: detectorComparisons.length > 0 ? detectorComparisons : undefined,
       };
 
       // Auto upload nếu được cấu hình
@@ -131,33 +237,274 @@ class VehicleDetectionService {
 
       return result;
     } finally {
+      if (features) {
+        imageProcessingService.disposeImageFeatures(features);
+      }
+      if (qualityGray) {
+        qualityGray.dispose();
+      }
+      if (workingTensor && workingTensor !== imageTensor) {
+        workingTensor.dispose();
+      }
       if (imageTensor) {
         imageTensor.dispose();
       }
     }
   }
 
+  /**
+   * Phát hiện biển số, logo và màu bên trong một vùng xe trên ảnh làm việc (context),
+   * rồi đổi các vùng về toạ độ ảnh gốc. Biển số được tinh chỉnh và phân tích trên ảnh gốc
+   */
+  private async detectVehicleDetails(
+    context: DetectionContext,
+    originalImage: tf.Tensor3D,
+    toOriginal: WorkingScale,
+    region: VehicleRegion | null,
+    index: number,
+    detectorComparisons: DetectorComparison[]
+  ): Promise<DetectedVehicle> {
+    const vehicleId = `vehicle_${index}`;
+    const profile = this.resolveProfile(region);
+
+    const licensePlateCandidates = await this.runStage('plate', vehicleId, detectorComparisons, detector =>
+      detector.detectPlates(context, region, profile, this.config.maxPlateCandidates)
+    );
+    const logoRegion = await this.runStage('logo', vehicleId, detectorComparisons, detector =>
+      // Logo nằm ngay trên biển số, tìm quanh ứng viên biển tốt nhất trước
+      detector.detectLogo(context, region, profile, licensePlateCandidates[0] || null)
+    );
+    // Giữ vùng theo toạ độ ảnh làm việc cho bước màu (scaleToOriginal thay box mới, không sửa box cũ)
+    const workingRegion = region && { ...region };
+    const excludedAreas = [
+      ...licensePlateCandidates.map(plate => plate.bbox),
+      ...(logoRegion ? [logoRegion.bbox] : []),
+    ];
+
+    const isDownscaled = originalImage !== context.imageTensor;
+    if (region) this.scaleToOriginal([region], toOriginal);
+    this.scaleToOriginal(licensePlateCandidates, toOriginal);
+    this.scaleToOriginal(logoRegion, toOriginal);
+
+    // Băm logo trên ảnh gốc để gom các xe cùng logo trong lịch sử
+    if (logoRegion) {
+      const logoHash = await imageProcessingService.computeLogoHash(originalImage, logoRegion.bbox);
+      if (logoHash) logoRegion.perceptualHash = logoHash;
+    }
+
+    // Ám màu nguồn sáng ước lượng trên ảnh làm việc, để biển trắng dưới đèn vàng/bóng râm
+    // vẫn được nhận là biển trắng (và dùng làm màu chuẩn cân bằng trắng cho màu xe)
+    const sceneGains = licensePlateCandidates.length > 0
+      ? await imageProcessingService.estimateSceneGains(context.imageTensor, workingRegion?.bbox)
+      : null;
+
+    for (const plate of licensePlateCandidates) {
+      // Box tìm trên ảnh thu nhỏ bị lệch vài pixel gốc, thu lại theo góc biển trên ảnh gốc
+      if (isDownscaled) {
+        await plateAnalysisService.refinePlateBox(originalImage, plate);
+      }
+
+      // Màu biển số -> loại xe (cá nhân, kinh doanh, nhà nước, quân đội)
+      const plateColors = await imageProcessingService.classifyPlateColors(originalImage, plate, sceneGains);
+      if (plateColors) {
+        plate.plateColors = plateColors;
+        plate.plateCategory = plateColors.category;
+      }
+
+      // Góc biển, ảnh biển đã nắn phối cảnh, tách và đọc ký tự
+      await plateAnalysisService.analyzePlate(originalImage, plate);
+    }
+
+    // Số ký tự tìm được đã điều chỉnh độ tin cậy, xếp hạng lại các ứng viên
+    licensePlateCandidates.sort((a, b) => b.confidence - a.confidence);
+
+    // Nền biển số trắng là vật chuẩn để cân bằng trắng khi đặt tên màu xe
+    const color = await this.runStage('color', vehicleId, detectorComparisons, detector =>
+      detector.detectColor(context, workingRegion, profile, {
+        excludedAreas,
+        whiteReference: this.plateWhiteReference(licensePlateCandidates[0]),
+      })
+    );
+
+    const vehicle: DetectedVehicle = {
+      id: vehicleId,
+      region,
+      licensePlate: licensePlateCandidates[0] || null,
+      licensePlateCandidates,
+      logoRegion,
+      color,
+      profile,
+    };
+    console.log(`Vehicle ${index}:`, vehicle);
+
+    return vehicle;
+  }
+
+  /**
+   * Thu nhỏ ảnh để cạnh dài không quá workingResolution. Trả về chính ảnh gốc nếu không cần
+   */
+  private toWorkingResolution(image: tf.Tensor3D): tf.Tensor3D {
+    const [height, width] = image.shape;
+    const maxSide = this.config.workingResolution;
+    if (maxSide <= 0 || Math.max(width, height) <= maxSide) {
+      return image;
+    }
+
+    const scale = maxSide / Math.max(width, height);
+    const size: [number, number] = [Math.round(height * scale), Math.round(width * scale)];
+    // Giữ kiểu int32 như ảnh giải mã từ JPEG
+    return tf.tidy(() => tf.image.resizeBilinear(image, size).round().toInt() as tf.Tensor3D);
+  }
+
+  /**
+   * Đổi box của kết quả phát hiện từ toạ độ ảnh làm việc về toạ độ ảnh gốc
+   */
+  private scaleToOriginal(output: DetectorOutput, toOriginal: WorkingScale): void {
+    const items = Array.isArray(output) ? output : output ? [output] : [];
+    items.forEach(item => {
+      if ('bbox' in item) {
+        item.bbox = scaleBoundingBox(item.bbox, toOriginal.x, toOriginal.y);
+      }
+    });
+  }
+
+  /**
+   * Màu nền đo được của biển số trắng (cá nhân, ngoại giao) đủ tin cậy, dùng làm màu chuẩn
+   * cân bằng trắng. Biển nền vàng/xanh/đỏ không dùng được vì không biết màu thật dưới ánh sáng
+   */
+  private plateWhiteReference(plate?: LicensePlateRegion): { r: number; g: number; b: number } | null {
+    const plateColors = plate?.plateColors;
+    if (!plateColors || plateColors.confidence < MIN_WHITE_REFERENCE_CONFIDENCE) return null;
+    if (plateColors.category !== 'private' && plateColors.category !== 'diplomatic') return null;
+
+    const value = parseInt(plateColors.background.slice(1), 16);
+    return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+  }
+
+  /**
+   * Hồ sơ được cấu hình, hoặc suy ra từ loại phương tiện khi cấu hình là 'auto'
+   */
+  private resolveProfile(region: VehicleRegion | null): VehicleProfile {
+    if (this.config.vehicleProfile !== 'auto') return this.config.vehicleProfile;
+    return region?.vehicleClass === 'motorcycle' ? 'motorcycle' : 'car';
+  }
+
+  /**
+   * Chạy một bước phát hiện bằng chiến lược đã cấu hình (hoặc chiến lược mặc định nếu
+   * không khởi tạo được hay bị lỗi khi chạy) và gắn nguồn vào kết quả. Nếu có chiến lược so sánh
+   * cho bước này thì chạy thêm và lưu kết quả riêng; lỗi của chiến lược so sánh chỉ bỏ qua phép so sánh
+   */
+  private async runStage<S extends DetectorStage, T extends DetectorOutput>(
+    stage: S,
+    vehicleId: string | null,
+    detectorComparisons: DetectorComparison[],
+    run: (detector: DetectorsByStage[S]) => Promise<T>
+  ): Promise<T> {
+    const detector =
+      (await detectorRegistry.resolve(stage, this.config.detectors[stage])) ||
+      (await detectorRegistry.resolve(stage, DEFAULT_DETECTOR_NAME));
+    if (!detector) {
+      throw new Error(`No detector available for stage ${stage}`);
+    }
+    let output: T;
+    try {
+      output = this.attachSource(await run(detector), detector);
+    } catch (error) {
+      const fallback = detector.name !== DEFAULT_DETECTOR_NAME
+        ? await detectorRegistry.resolve(stage, DEFAULT_DETECTOR_NAME)
+        : null;
+      if (!fallback) throw error;
+      console.error(`Detector "${detector.name}" failed at stage ${stage}, using ${DEFAULT_DETECTOR_NAME}:`, error);
+      output = this.attachSource(await run(fallback), fallback);
+    }
+
+    const comparisonName = this.config.comparisonDetectors?.[stage];
+    if (comparisonName && comparisonName !== detector.name) {
+      const comparisonDetector = await detectorRegistry.resolve(stage, comparisonName);
+      if (comparisonDetector) {
+        const comparisonStart = Date.now();
+        try {
+          const comparisonOutput = this.attachSource(await run(comparisonDetector), comparisonDetector);
+          detectorComparisons.push({
+            stage,
+            source: { strategy: comparisonDetector.name, version: comparisonDetector.version },
+            vehicleId,
+            durationMs: Date.now() - comparisonStart,
+            output: comparisonOutput,
+          });
+        } catch (error) {
+          console.error(`Comparison detector "${comparisonName}" failed at stage ${stage}:`, error);
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private attachSource<T extends DetectorOutput>(
+    output: T,
+    detector: { name: string; version: string }
+  ): T {
+    const source: DetectionSource = { strategy: detector.name, version: detector.version };
+    const items = Array.isArray(output) ? output : output ? [output] : [];
+    items.forEach(item => {
+      item.source = source;
+    });
+    return output;
+  }
+
   /**
    * Tạo payload để gửi lên cloud
    */
   prepareCloudPayload(result: VehicleDetectionResult): CloudUploadPayload {
+    const toBoundingBoxes = (vehicle: DetectedVehicle): VehicleBoundingBoxes => ({
+      vehicle: vehicle.region?.bbox,
+      licensePlate: vehicle.licensePlate?.bbox,
+      licensePlateLayout: vehicle.licensePlate?.layout,
+      licensePlateCategory: vehicle.licensePlate?.plateCategory,
+      licensePlateCorners: vehicle.licensePlate?.corners,
+      licensePlateImageBase64: vehicle.licensePlate?.rectifiedImageBase64,
+      licensePlateCharacters: vehicle.licensePlate?.characters,
+      licensePlateOcr: vehicle.licensePlate?.ocr,
+      licensePlateCandidates: vehicle.licensePlateCandidates.map(plate => ({
+        bbox: plate.bbox,
+        confidence: plate.confidence,
+        layout: plate.layout,
+      })),
+      logo: vehicle.logoRegion?.bbox,
+    });
+    const primaryVehicle = result.vehicles[0];
+
     return {
       detectionId: result.id,
       imageBase64: result.imageBase64 || '',
       boundingBoxes: {
-        vehicle: result.vehicleRegion?.bbox,
-        licensePlate: result.licensePlate?.bbox,
-        logo: result.logoRegion?.bbox,
+        ...(primaryVehicle ? toBoundingBoxes(primaryVehicle) : {}),
+        vehicles: result.vehicles.map(vehicle => ({
+          vehicleId: vehicle.id,
+          ...toBoundingBoxes(vehicle),
+        })),
       },
       vehicleInfo: {
         type: result.vehicleRegion?.type || null,
+        vehicleClass: result.vehicleRegion?.vehicleClass || null,
         color: result.vehicleColor,
+        vehicles: result.vehicles.map(vehicle => ({
+          vehicleId: vehicle.id,
+          type: vehicle.region?.type || null,
+          vehicleClass: vehicle.region?.vehicleClass || null,
+          color: vehicle.color,
+        })),
       },
       metadata: {
         timestamp: result.timestamp.toISOString(),
         deviceInfo: 'React Native / Expo',
         imageWidth: result.imageWidth,
         imageHeight: result.imageHeight,
+        uploadImageWidth: result.enhancement?.improved ? result.enhancement.width : result.imageWidth,
+        uploadImageHeight: result.enhancement?.improved ? result.enhancement.height : result.imageHeight,
+        enhancement: result.enhancement?.improved ? result.enhancement.steps : [],
+        colorTaxonomyVersion: result.colorTaxonomyVersion,
       },
     };
   }
@@ -229,29 +576,66 @@ class VehicleDetectionService {
       height: imageWidth * 0.16,
     };
 
-    return {
-      vehicleRegion: {
+    const licensePlate: LicensePlateRegion = {
+      bbox: plateBbox,
+      confidence: 0.78,
+      layout: 'one-row',
+      plateCategory: 'private',
+    };
+
+    const vehicle: DetectedVehicle = {
+      id: 'vehicle_0',
+      region: {
         type: 'rear',
         bbox: vehicleBbox,
         confidence: 0.85,
+        vehicleClass: 'car',
       },
-      licensePlate: {
-        bbox: plateBbox,
-        confidence: 0.78,
-      },
+      licensePlate,
+      licensePlateCandidates: [licensePlate],
       logoRegion: {
         bbox: logoBbox,
         confidence: 0.65,
+        cue: 'plate',
       },
-      vehicleColor: {
+      color: {
         dominant: '#1a1a2e',
+        colorId: 'black',
         name: 'Đen',
-        confidence: 0.72,
+        confidence: 0.95,
         rgb: { r: 26, g: 26, b: 46 },
+        palette: [
+          { hex: '#1a1a2e', colorId: 'black', name: 'Đen', rgb: { r: 26, g: 26, b: 46 }, proportion: 0.72, confidence: 0.95 },
+          { hex: '#9a9aa6', colorId: 'silver', name: 'Bạc', rgb: { r: 154, g: 154, b: 166 }, proportion: 0.28, confidence: 0.8 },
+        ],
+        isTwoTone: false,
       },
+      profile: 'car',
+    };
+    return {
+      vehicles: [vehicle],
+      vehicleRegion: vehicle.region,
+      licensePlate: vehicle.licensePlate,
+      licensePlateCandidates: vehicle.licensePlateCandidates,
+      logoRegion: vehicle.logoRegion,
+      vehicleColor: vehicle.color,
       imageWidth,
       imageHeight,
       processingTimeMs: 150,
+      enhancement: null,
+      colorTaxonomyVersion: colorTaxonomyService.getTaxonomy().version,
+      quality: {
+        isAcceptable: true,
+        metrics: {
+          sharpness: 250,
+          brightness: 0.5,
+          shadowClipping: 0.02,
+          highlightClipping: 0.01,
+          plateGlare: 0,
+          platePixelHeight: plateBbox.height,
+        },
+        issues: [],
+      },
       isReadyForCloud: true,
       cloudUploadStatus: 'pending',
     };
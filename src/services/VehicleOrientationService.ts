@@ -0,0 +1,186 @@
+import * as tf from '@tensorflow/tfjs';
+import { ImageFeatures } from './ImageProcessingService';
+import { BoundingBox, VehicleOrientation } from '../types/detection';
+
+// Vùng xe được thu về lưới này trước khi phân tích trên JS
+const ORIENTATION_SAMPLE_SIZE = 64;
+// Tỷ lệ điểm ảnh đèn trong mỗi vùng đèn để coi là thấy rõ cặp đèn
+const LAMP_PIXEL_RATIO = 0.02;
+
+/**
+ * Các dấu hiệu dùng để phân loại hướng xe, mỗi dấu hiệu trong [0, 1]
+ */
+interface OrientationCues {
+  aspectRatio: number;
+  symmetry: number;           // Đối xứng trái/phải của gradient
+  redLamps: number;           // Cặp đèn hậu đỏ ở hai bên
+  brightLamps: number;        // Cặp đèn pha trắng/vàng ở hai bên
+  windshieldPosition: number | null; // Tâm vùng kính (ít cạnh) theo chiều cao, null nếu không thấy
+}
+
+/**
+ * Service phân loại hướng xe (đầu, đuôi, thân) từ tỷ lệ khung, độ đối xứng,
+ * màu đèn và vị trí kính chắn gió
+ */
+class VehicleOrientationService {
+
+  async classifyOrientation(
+    imageTensor: tf.Tensor3D,
+    features: ImageFeatures,
+    bbox: BoundingBox
+  ): Promise<{ type: VehicleOrientation; confidence: number }> {
+    const cues = await this.extractCues(imageTensor, features, bbox);
+
+    // Nhìn ngang: khung rộng và không đối xứng trái/phải
+    const wideness = this.clamp01((cues.aspectRatio - 1.8) / 1.2);
+    const asymmetry = this.clamp01((0.85 - cues.symmetry) / 0.35);
+    const side = 0.6 * wideness + 0.4 * asymmetry;
+
+    // Đầu xe: đèn pha sáng, kính chắn gió lớn và thấp (có nắp capo phía dưới).
+    // Đuôi xe: đèn hậu đỏ, kính sau nhỏ và cao. Không thấy kính thì chỉ dựa vào đèn
+    let frontEvidence = cues.brightLamps;
+    let rearEvidence = cues.redLamps;
+    if (cues.windshieldPosition !== null) {
+      const windshieldLow = this.clamp01((cues.windshieldPosition - 0.2) / 0.2);
+      frontEvidence = 0.6 * cues.brightLamps + 0.4 * windshieldLow;
+      rearEvidence = 0.6 * cues.redLamps + 0.4 * (1 - windshieldLow);
+    }
+    const frontShare = frontEvidence + rearEvidence > 0
+      ? frontEvidence / (frontEvidence + rearEvidence)
+      : 0.5;
+
+    const scores: Record<VehicleOrientation, number> = {
+      front: (1 - side) * frontShare,
+      rear: (1 - side) * (1 - frontShare),
+      side,
+    };
+    const type = (Object.keys(scores) as VehicleOrientation[])
+      .reduce((best, orientation) => (scores[orientation] > scores[best] ? orientation : best));
+
+    return { type, confidence: scores[type] };
+  }
+
+  private async extractCues(
+    imageTensor: tf.Tensor3D,
+    features: ImageFeatures,
+    bbox: BoundingBox
+  ): Promise<OrientationCues> {
+    const size = ORIENTATION_SAMPLE_SIZE;
+    const x = Math.max(0, Math.floor(bbox.x));
+    const y = Math.max(0, Math.floor(bbox.y));
+    const width = Math.max(1, Math.min(features.width - x, Math.round(bbox.width)));
+    const height = Math.max(1, Math.min(features.height - y, Math.round(bbox.height)));
+
+    const [rgbTensor, gradientTensor] = tf.tidy(() => {
+      const rgb = tf.image.resizeBilinear(
+        imageTensor.slice([y, x, 0], [height, width, 3]).toFloat().div(255) as tf.Tensor3D,
+        [size, size]
+      );
+      const gradient = tf.image.resizeBilinear(
+        features.gradientMagnitude.slice([y, x], [height, width]).expandDims(-1) as tf.Tensor3D,
+        [size, size]
+      );
+      return [rgb, gradient];
+    });
+    const [rgb, gradient] = await Promise.all([rgbTensor.data(), gradientTensor.data()]);
+    rgbTensor.dispose();
+    gradientTensor.dispose();
+
+    return {
+      aspectRatio: bbox.width / Math.max(1, bbox.height),
+      symmetry: this.measureSymmetry(gradient, size),
+      ...this.measureLamps(rgb, size),
+      windshieldPosition: this.findWindshield(gradient, size),
+    };
+  }
+
+  private measureSymmetry(gradient: ArrayLike<number>, size: number): number {
+    let difference = 0;
+    let total = 0;
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size / 2; col++) {
+        const left = gradient[row * size + col];
+        const right = gradient[row * size + (size - 1 - col)];
+        difference += Math.abs(left - right);
+        total += left + right;
+      }
+    }
+    return total > 0 ? 1 - difference / total : 1;
+  }
+
+  /**
+   * Đếm điểm ảnh đỏ (đèn hậu) và trắng/vàng sáng (đèn pha) ở hai bên nửa dưới vùng xe.
+   * Chỉ tính là có cặp đèn khi cả hai bên đều có
+   */
+  private measureLamps(rgb: ArrayLike<number>, size: number): { redLamps: number; brightLamps: number } {
+    const rowStart = Math.floor(size * 0.35);
+    const rowEnd = Math.floor(size * 0.8);
+    const sideWidth = Math.floor(size * 0.35);
+    const zonePixels = (rowEnd - rowStart) * sideWidth;
+
+    const red = [0, 0];
+    const bright = [0, 0];
+    for (let row = rowStart; row < rowEnd; row++) {
+      for (let col = 0; col < size; col++) {
+        const zone = col < sideWidth ? 0 : col >= size - sideWidth ? 1 : -1;
+        if (zone < 0) continue;
+
+        const i = (row * size + col) * 3;
+        const r = rgb[i];
+        const g = rgb[i + 1];
+        const b = rgb[i + 2];
+        if (r > 0.4 && r > g * 1.6 && r > b * 1.6) red[zone]++;
+        if (Math.min(r, g, b) > 0.85 || (r > 0.8 && g > 0.65 && b < 0.5)) bright[zone]++;
+      }
+    }
+
+    const pairStrength = (counts: number[]) =>
+      this.clamp01(Math.min(counts[0], counts[1]) / zonePixels / LAMP_PIXEL_RATIO);
+
+    return { redLamps: pairStrength(red), brightLamps: pairStrength(bright) };
+  }
+
+  /**
+   * Kính xe là dải hàng ít cạnh dài nhất ở 65% phía trên vùng xe.
+   * Trả về tâm dải theo tỷ lệ chiều cao, null nếu không tìm thấy
+   */
+  private findWindshield(gradient: ArrayLike<number>, size: number): number | null {
+    const rowMeans: number[] = [];
+    let overall = 0;
+    for (let row = 0; row < size; row++) {
+      let sum = 0;
+      for (let col = 0; col < size; col++) {
+        sum += gradient[row * size + col];
+      }
+      rowMeans.push(sum / size);
+      overall += sum / size;
+    }
+    overall /= size;
+
+    const searchRows = Math.floor(size * 0.65);
+    let bestStart = -1;
+    let bestLength = 0;
+    let runStart = -1;
+    for (let row = 0; row <= searchRows; row++) {
+      const smooth = row < searchRows && rowMeans[row] < overall * 0.5;
+      if (smooth && runStart < 0) runStart = row;
+      if (!smooth && runStart >= 0) {
+        if (row - runStart > bestLength) {
+          bestLength = row - runStart;
+          bestStart = runStart;
+        }
+        runStart = -1;
+      }
+    }
+
+    if (bestLength < size / 16) return null;
+    return (bestStart + bestLength / 2) / size;
+  }
+
+  private clamp01(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
+
+export const vehicleOrientationService = new VehicleOrientationService();
+export default vehicleOrientationService;
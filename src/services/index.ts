@@ -1,4 +1,11 @@
 export { licensePlateDetector } from './LicensePlateDetector';
 export { imageProcessingService } from './ImageProcessingService';
 export { vehicleDetectionService } from './VehicleDetectionService';
+export { detectorRegistry } from './DetectorRegistry';
+export { plateAnalysisService } from './PlateAnalysisService';
+export { plateOcrService } from './PlateOcrService';
+export { imageQualityService } from './ImageQualityService';
+export { imageEnhancementService } from './ImageEnhancementService';
+export { colorTaxonomyService } from './ColorTaxonomyService';
 export { cloudUploadService } from './CloudUploadService';
+export { logoClusterService } from './LogoClusterService';
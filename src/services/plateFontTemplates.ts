@@ -0,0 +1,359 @@
+// Mẫu ký tự font biển số VN (lưới 5x9, '#' = nét chữ).
+// Gồm mọi ký tự trong PLATE_DIGITS và PLATE_LETTERS (utils/plateText)
+export const PLATE_GLYPH_WIDTH = 5;
+export const PLATE_GLYPH_HEIGHT = 9;
+
+export const PLATE_FONT_TEMPLATES: Record<string, string[]> = {
+  '0': [
+    '.###.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '.###.',
+  ],
+  '1': [
+    '..#..',
+    '.##..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+  ],
+  '2': [
+    '.###.',
+    '#...#',
+    '....#',
+    '....#',
+    '...#.',
+    '..#..',
+    '.#...',
+    '#....',
+    '#####',
+  ],
+  '3': [
+    '.###.',
+    '#...#',
+    '....#',
+    '....#',
+    '..##.',
+    '....#',
+    '....#',
+    '#...#',
+    '.###.',
+  ],
+  '4': [
+    '...#.',
+    '..##.',
+    '.#.#.',
+    '#..#.',
+    '#..#.',
+    '#####',
+    '...#.',
+    '...#.',
+    '...#.',
+  ],
+  '5': [
+    '#####',
+    '#....',
+    '#....',
+    '####.',
+    '....#',
+    '....#',
+    '....#',
+    '#...#',
+    '.###.',
+  ],
+  '6': [
+    '.###.',
+    '#...#',
+    '#....',
+    '#....',
+    '####.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '.###.',
+  ],
+  '7': [
+    '#####',
+    '....#',
+    '....#',
+    '...#.',
+    '..#..',
+    '..#..',
+    '.#...',
+    '.#...',
+    '.#...',
+  ],
+  '8': [
+    '.###.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '.###.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '.###.',
+  ],
+  '9': [
+    '.###.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '.####',
+    '....#',
+    '....#',
+    '#...#',
+    '.###.',
+  ],
+  A: [
+    '..#..',
+    '.#.#.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#####',
+    '#...#',
+    '#...#',
+    '#...#',
+  ],
+  B: [
+    '####.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '####.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '####.',
+  ],
+  C: [
+    '.###.',
+    '#...#',
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+    '#...#',
+    '.###.',
+  ],
+  D: [
+    '####.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '####.',
+  ],
+  E: [
+    '#####',
+    '#....',
+    '#....',
+    '#....',
+    '####.',
+    '#....',
+    '#....',
+    '#....',
+    '#####',
+  ],
+  F: [
+    '#####',
+    '#....',
+    '#....',
+    '#....',
+    '####.',
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+  ],
+  G: [
+    '.###.',
+    '#...#',
+    '#....',
+    '#....',
+    '#.###',
+    '#...#',
+    '#...#',
+    '#...#',
+    '.###.',
+  ],
+  H: [
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#####',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+  ],
+  K: [
+    '#...#',
+    '#...#',
+    '#..#.',
+    '#.#..',
+    '##...',
+    '#.#..',
+    '#..#.',
+    '#...#',
+    '#...#',
+  ],
+  L: [
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+    '#####',
+  ],
+  M: [
+    '#...#',
+    '##.##',
+    '#.#.#',
+    '#.#.#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+  ],
+  N: [
+    '#...#',
+    '##..#',
+    '##..#',
+    '#.#.#',
+    '#.#.#',
+    '#.#.#',
+    '#..##',
+    '#..##',
+    '#...#',
+  ],
+  P: [
+    '####.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '####.',
+    '#....',
+    '#....',
+    '#....',
+    '#....',
+  ],
+  Q: [
+    '.###.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#.#.#',
+    '#..#.',
+    '.##.#',
+  ],
+  R: [
+    '####.',
+    '#...#',
+    '#...#',
+    '#...#',
+    '####.',
+    '#.#..',
+    '#..#.',
+    '#...#',
+    '#...#',
+  ],
+  S: [
+    '.###.',
+    '#...#',
+    '#....',
+    '#....',
+    '.###.',
+    '....#',
+    '....#',
+    '#...#',
+    '.###.',
+  ],
+  T: [
+    '#####',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+  ],
+  U: [
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '.###.',
+  ],
+  V: [
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '#...#',
+    '.#.#.',
+    '.#.#.',
+    '.#.#.',
+    '..#..',
+  ],
+  X: [
+    '#...#',
+    '#...#',
+    '.#.#.',
+    '.#.#.',
+    '..#..',
+    '.#.#.',
+    '.#.#.',
+    '#...#',
+    '#...#',
+  ],
+  Y: [
+    '#...#',
+    '#...#',
+    '.#.#.',
+    '.#.#.',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+    '..#..',
+  ],
+  Z: [
+    '#####',
+    '....#',
+    '...#.',
+    '...#.',
+    '..#..',
+    '.#...',
+    '.#...',
+    '#....',
+    '#####',
+  ],
+};
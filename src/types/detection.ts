@@ -7,28 +7,211 @@ export interface BoundingBox {
   height: number;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Các bước phát hiện có thể thay bằng chiến lược khác (heuristic, model đã huấn luyện)
+export type DetectorStage = 'vehicle' | 'plate' | 'logo' | 'color';
+
+// Chiến lược và phiên bản đã tạo ra kết quả
+export interface DetectionSource {
+  strategy: string;
+  version: string;
+}
+
+// Loại phương tiện theo lớp COCO
+export type VehicleClass = 'car' | 'truck' | 'bus' | 'motorcycle';
+
+// Bộ thông số phát hiện biển số, logo, màu theo kiểu xe
+export type VehicleProfile = 'car' | 'motorcycle';
+
+// Hướng nhìn xe: đầu xe, đuôi xe hoặc thân xe (nhìn ngang)
+export type VehicleOrientation = 'front' | 'rear' | 'side';
+
 export interface VehicleRegion {
-  type: 'front' | 'rear' | 'side';
+  type: VehicleOrientation;
+  orientationConfidence?: number;
   bbox: BoundingBox;
   confidence: number;
+  vehicleClass?: VehicleClass;   // Chỉ có khi chiến lược phân loại được (VD: coco-ssd)
+  source?: DetectionSource;
+}
+
+// Biển 1 dòng (biển dài ô tô) hoặc 2 dòng (biển vuông đuôi ô tô, xe máy)
+export type PlateLayout = 'one-row' | 'two-row';
+
+// Loại xe suy ra từ màu nền/màu chữ biển số VN
+export type PlateCategory = 'private' | 'commercial' | 'government' | 'military' | 'diplomatic' | 'unknown';
+
+export interface PlateColorInfo {
+  category: PlateCategory;
+  background: string;     // Màu nền (hex)
+  text: string;           // Màu chữ (hex)
+  confidence: number;
+}
+
+export interface PlateCharacter {
+  bbox: BoundingBox;   // Toạ độ trên ảnh gốc
+  row: number;         // 0 = dòng trên (hoặc dòng duy nhất), 1 = dòng dưới của biển 2 dòng
+}
+
+export interface PlateOcrCharacter {
+  char: string;
+  confidence: number;
+}
+
+export interface PlateOcrResult {
+  plateText: string;                 // Ký tự đọc được theo thứ tự, các dòng cách nhau bởi khoảng trắng
+  characters: PlateOcrCharacter[];
+  confidence: number;                // Trung bình độ tin cậy các ký tự
+}
+
+// Dạng biển số theo quy định (nội dung chữ trên biển)
+export type PlateKind = 'car' | 'motorbike' | 'diplomatic' | 'military';
+
+export interface ParsedPlate {
+  kind: PlateKind;
+  normalized: string;             // Bỏ dấu phân cách, VD: 51F12345
+  formatted: string;              // Dạng chuẩn, VD: 51F-123.45
+  provinceCode: string | null;    // Biển quân đội không có mã tỉnh
+  provinceName: string | null;    // null khi mã tỉnh không có trong danh mục
+  series: string;
+  serial: string;
+}
+
+export interface PlateValidationResult {
+  isValid: boolean;
+  plate: ParsedPlate | null;
+  errors: string[];
+  suggestions: ParsedPlate[];     // Các cách đọc hợp lệ khi sửa lỗi nhầm ký tự OCR
 }
 
 export interface LicensePlateRegion {
   bbox: BoundingBox;
   confidence: number;
+  layout: PlateLayout;
+  plateCategory?: PlateCategory;
+  plateColors?: PlateColorInfo;
+  corners?: Point[];                 // 4 góc biển số: trên trái, trên phải, dưới phải, dưới trái
+  rectifiedImageBase64?: string;     // Ảnh biển số đã nắn phối cảnh (JPEG, kích thước cố định)
+  characters?: PlateCharacter[];     // Vị trí từng ký tự, theo thứ tự đọc
+  ocr?: PlateOcrResult;              // Kết quả đọc biển trên thiết bị (best-effort)
+  source?: DetectionSource;
 }
 
+// Dấu hiệu đã dùng để định vị logo: phía trên biển số, trên trục đối xứng của xe,
+// hoặc vị trí mặc định của hồ sơ xe khi không có hai dấu hiệu trên
+export type LogoCue = 'plate' | 'symmetry' | 'profile';
+
 export interface LogoRegion {
   bbox: BoundingBox;
   confidence: number;
+  cue?: LogoCue;
+  perceptualHash?: string;  // pHash 64 bit (hex) của vùng logo, để gom các xe cùng logo
+  source?: DetectionSource;
   // Không cần biết logo là gì, chỉ cần vị trí
 }
 
+// Nhãn người dùng đặt cho một nhóm logo (VD: "Toyota"), gắn với mã băm đại diện của nhóm
+export interface LogoLabel {
+  hash: string;
+  label: string;
+}
+
+/**
+ * Nhóm các xe trong lịch sử có logo giống nhau
+ */
+export interface LogoCluster {
+  id: string;                                            // Mã băm đại diện của nhóm
+  hashes: string[];
+  members: Array<{ resultId: string; vehicleId: string }>;
+  label: string | null;
+}
+
+export interface PaletteColor {
+  hex: string;
+  colorId: string;        // Mã màu ổn định trong bảng màu (ColorTaxonomy)
+  name: string;           // Tên hiển thị của colorId
+  rgb: { r: number; g: number; b: number };
+  proportion: number;     // Tỷ lệ điểm ảnh thân xe mang màu này
+  confidence: number;     // Độ chắc chắn của tên màu: 0.5 ngay ranh giới giữa hai tên, 1 khi cách xa
+}
+
+// Màu chuẩn dùng để ước lượng nguồn sáng: nền biển số trắng, hoặc thống kê toàn cảnh
+export type WhiteBalanceReference = 'plate' | 'scene';
+
+export interface WhiteBalanceInfo {
+  reference: WhiteBalanceReference;
+  gains: { r: number; g: number; b: number };  // Hệ số nhân từng kênh trước khi đặt tên màu
+}
+
 export interface ColorInfo {
-  dominant: string;       // Màu chủ đạo (hex)
-  name: string;          // Tên màu cơ bản: đỏ, xanh, trắng, đen, bạc...
+  dominant: string;       // Màu chủ đạo (hex) = palette[0]
+  colorId: string;        // Mã màu ổn định: 'white', 'red'... dùng để lọc và gửi cloud
+  name: string;          // Tên hiển thị: Đỏ, Xanh, Trắng, Đen, Bạc...
   confidence: number;
   rgb: { r: number; g: number; b: number };
+  palette?: PaletteColor[];  // Các màu của thân xe, xếp theo tỷ lệ giảm dần
+  isTwoTone?: boolean;       // Xe sơn hai màu (VD: nóc trắng thân đỏ)
+  whiteBalance?: WhiteBalanceInfo;  // Chỉ có khi ảnh bị ám màu và đã được cân bằng trắng
+  source?: DetectionSource;
+}
+
+/**
+ * Một xe trong ảnh cùng với biển số, logo và màu thuộc về nó
+ */
+export interface DetectedVehicle {
+  id: string;
+  region: VehicleRegion | null;                      // null khi không xác định được vùng xe (tìm trên toàn ảnh)
+  licensePlate: LicensePlateRegion | null;           // Ứng viên tốt nhất (= licensePlateCandidates[0])
+  licensePlateCandidates: LicensePlateRegion[];      // Các ứng viên biển số, xếp hạng theo độ tin cậy
+  logoRegion: LogoRegion | null;
+  color: ColorInfo | null;
+  profile: VehicleProfile;                           // Bộ thông số đã dùng để tìm biển số, logo, màu
+}
+
+// Lý do ảnh chưa đủ chất lượng để gửi cloud
+export type QualityIssueCode =
+  | 'motion-blur'
+  | 'underexposed'
+  | 'overexposed'
+  | 'clipping'
+  | 'plate-glare'
+  | 'plate-too-small';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;        // Mô tả cho người dùng
+}
+
+export interface QualityMetrics {
+  sharpness: number;                // Phương sai Laplacian của ảnh xám (0-255), quy đổi về độ phân giải gốc
+  brightness: number;               // Độ sáng trung bình [0, 1]
+  shadowClipping: number;           // Tỷ lệ điểm ảnh đen kịt
+  highlightClipping: number;        // Tỷ lệ điểm ảnh cháy sáng
+  plateGlare: number | null;        // Tỷ lệ điểm ảnh cháy sáng trên biển số, null khi không có biển
+  platePixelHeight: number | null;  // Chiều cao biển số (pixel), null khi không có biển
+}
+
+export interface ImageQualityReport {
+  isAcceptable: boolean;            // Không có lý do nào trong issues
+  metrics: QualityMetrics;
+  issues: QualityIssue[];
+}
+
+// Các bước tiền xử lý ảnh thiếu sáng/lóa sáng, theo thứ tự áp dụng
+export type EnhancementStep = 'highlight-suppression' | 'gamma' | 'clahe';
+
+export interface ImageEnhancementInfo {
+  steps: EnhancementStep[];
+  gamma: number | null;               // Hệ số gamma đã dùng (< 1 làm sáng ảnh)
+  brightnessBefore: number;           // Độ sáng trung bình [0, 1] trước và sau xử lý
+  brightnessAfter: number;
+  improved: boolean;                  // Có chỉ số độ sáng/tương phản/phản xạ được cải thiện; chỉ khi đó imageBase64 là ảnh đã xử lý
+  width: number;                      // Kích thước ảnh đã xử lý (độ phân giải làm việc)
+  height: number;
 }
 
 export interface VehicleDetectionResult {
@@ -37,12 +220,16 @@ export interface VehicleDetectionResult {
   imageUri: string;
   imageBase64?: string;
   
-  // Các vùng phát hiện được
+  // Tất cả các xe phát hiện được, xếp hạng theo độ tin cậy của vùng xe
+  vehicles: DetectedVehicle[];
+  
+  // Các vùng của xe chính (vehicles[0]), giữ lại để tương thích
   vehicleRegion: VehicleRegion | null;
   licensePlate: LicensePlateRegion | null;
+  licensePlateCandidates: LicensePlateRegion[];
   logoRegion: LogoRegion | null;
   
-  // Thông tin màu xe
+  // Thông tin màu xe chính
   vehicleColor: ColorInfo | null;
   
   // Metadata
@@ -50,50 +237,230 @@ export interface VehicleDetectionResult {
   imageHeight: number;
   processingTimeMs: number;
   
+  // Tiền xử lý đã áp dụng trước khi phát hiện, null nếu dùng ảnh gốc.
+  // imageBase64 là ảnh đã xử lý khi enhancement.improved
+  enhancement: ImageEnhancementInfo | null;
+
+  // Phiên bản bảng màu đã dùng để gán colorId
+  colorTaxonomyVersion: string;
+
+  // Chất lượng ảnh chụp, cùng với độ tin cậy quyết định isReadyForCloud
+  quality: ImageQualityReport;
+
   // Trạng thái để gửi cloud
   isReadyForCloud: boolean;
   cloudUploadStatus: 'pending' | 'uploading' | 'uploaded' | 'failed';
+
+  // Kết quả của các chiến lược chạy song song để so sánh (xem ProcessingConfig.comparisonDetectors)
+  detectorComparisons?: DetectorComparison[];
+}
+
+export type DetectorOutput = VehicleRegion[] | LicensePlateRegion[] | LogoRegion | ColorInfo | null;
+
+export interface DetectorComparison {
+  stage: DetectorStage;
+  source: DetectionSource;
+  vehicleId: string | null;   // null với bước phát hiện xe (chạy trên toàn ảnh)
+  durationMs: number;
+  output: DetectorOutput;
+}
+
+export interface VehicleBoundingBoxes {
+  vehicle?: BoundingBox;
+  licensePlate?: BoundingBox;
+  licensePlateLayout?: PlateLayout;
+  licensePlateCategory?: PlateCategory;
+  licensePlateCorners?: Point[];
+  licensePlateImageBase64?: string;  // Ảnh biển số đã nắn phối cảnh cho OCR trên cloud
+  licensePlateCharacters?: PlateCharacter[];
+  licensePlateOcr?: PlateOcrResult;
+  licensePlateCandidates?: Array<{ bbox: BoundingBox; confidence: number; layout: PlateLayout }>;
+  logo?: BoundingBox;
 }
 
 export interface CloudUploadPayload {
   detectionId: string;
   imageBase64: string;
-  boundingBoxes: {
-    vehicle?: BoundingBox;
-    licensePlate?: BoundingBox;
-    logo?: BoundingBox;
+  // Các trường ở cấp ngoài cùng là của xe chính, `vehicles` chứa đầy đủ từng xe
+  boundingBoxes: VehicleBoundingBoxes & {
+    vehicles: Array<VehicleBoundingBoxes & { vehicleId: string }>;
   };
   vehicleInfo: {
-    type: 'front' | 'rear' | 'side' | null;
+    type: VehicleOrientation | null;
+    vehicleClass: VehicleClass | null;
     color: ColorInfo | null;
+    vehicles: Array<{
+      vehicleId: string;
+      type: VehicleOrientation | null;
+      vehicleClass: VehicleClass | null;
+      color: ColorInfo | null;
+    }>;
   };
   metadata: {
     timestamp: string;
     deviceInfo: string;
     imageWidth: number;
     imageHeight: number;
+    // Kích thước imageBase64: nhỏ hơn imageWidth/imageHeight khi gửi ảnh đã xử lý ở độ phân giải làm việc.
+    // Mọi box vẫn theo toạ độ imageWidth/imageHeight
+    uploadImageWidth: number;
+    uploadImageHeight: number;
+    enhancement: EnhancementStep[];   // Các bước tiền xử lý đã áp dụng lên imageBase64
+    colorTaxonomyVersion: string;     // Phiên bản bảng màu đã dùng để gán colorId
   };
 }
 
+/**
+ * Hệ số để tính ngưỡng của các detector heuristic theo thống kê cạnh của từng ảnh,
+ * thay cho ngưỡng cố định (ảnh nắng gắt, trời râm, hầm gửi xe có mức cạnh rất khác nhau)
+ */
+export interface DetectionThresholds {
+  // Điểm cạnh của vùng xe: gradient > trung bình + hệ số x độ lệch chuẩn của cả ảnh
+  edgeStdFactor: number;
+  // Cửa sổ vùng xe: mật độ điểm cạnh > hệ số x tỷ lệ điểm cạnh của cả ảnh
+  vehicleDensityFactor: number;
+  // Điểm cạnh mạnh của biển số: |Sobel X| > trung bình + hệ số x độ lệch chuẩn
+  strongEdgeStdFactor: number;
+  // Cửa sổ biển số: mật độ cạnh ngang > hệ số x mật độ cạnh ngang trung bình của cả ảnh
+  plateEdgeDensityFactor: number;
+  // Cửa sổ biển số: tỷ lệ điểm cạnh mạnh > hệ số x tỷ lệ điểm cạnh mạnh của cả ảnh
+  plateStrongEdgeFactor: number;
+  // Cửa sổ logo: Laplacian trung bình > hệ số x Laplacian trung bình của cả ảnh
+  logoScoreFactor: number;
+}
+
+export const DEFAULT_DETECTION_THRESHOLDS: DetectionThresholds = {
+  edgeStdFactor: 1.25,
+  vehicleDensityFactor: 0.5,
+  strongEdgeStdFactor: 3,
+  plateEdgeDensityFactor: 3.5,
+  plateStrongEdgeFactor: 5,
+  logoScoreFactor: 3,
+};
+
 export interface ProcessingConfig {
   minVehicleConfidence: number;
   minPlateConfidence: number;
   minLogoConfidence: number;
+  maxVehicles: number;
+  maxPlateCandidates: number;
   autoUploadToCloud: boolean;
   cloudEndpoint: string;
+  // Tên chiến lược dùng cho từng bước, đăng ký trong detectorRegistry
+  detectors: Record<DetectorStage, string>;
+  // Chiến lược chạy thêm để so sánh với chiến lược chính
+  comparisonDetectors?: Partial<Record<DetectorStage, string>>;
+  // 'auto': dùng hồ sơ xe máy khi vùng xe được phân loại là motorcycle, còn lại dùng hồ sơ ô tô
+  vehicleProfile: VehicleProfile | 'auto';
+  // 'auto': tăng sáng/giảm lóa khi đo được ảnh tối, tương phản thấp hoặc cháy sáng
+  enhancement: 'auto' | 'off';
+  thresholds: DetectionThresholds;
+  // Cạnh dài tối đa (pixel) của ảnh dùng để phát hiện; 0 = dùng ảnh gốc.
+  // Toạ độ trong kết quả luôn theo ảnh gốc
+  workingResolution: number;
 }
 
+export const VEHICLE_CLASSES: VehicleClass[] = ['car', 'truck', 'bus', 'motorcycle'];
+
+export const VEHICLE_CLASS_NAMES: Record<VehicleClass, string> = {
+  car: 'Ô tô con',
+  truck: 'Xe tải',
+  bus: 'Xe buýt',
+  motorcycle: 'Xe máy',
+};
+
+export const ENHANCEMENT_STEP_NAMES: Record<EnhancementStep, string> = {
+  'highlight-suppression': 'Giảm lóa',
+  gamma: 'Tăng sáng',
+  clahe: 'Tăng tương phản',
+};
+
+export const LOGO_CUE_NAMES: Record<LogoCue, string> = {
+  plate: 'Phía trên biển số',
+  symmetry: 'Trục đối xứng của xe',
+  profile: 'Vị trí mặc định',
+};
+
+export const WHITE_BALANCE_REFERENCE_NAMES: Record<WhiteBalanceReference, string> = {
+  plate: 'Theo nền biển số',
+  scene: 'Theo toàn cảnh',
+};
+
+export const VEHICLE_PROFILE_NAMES: Record<VehicleProfile, string> = {
+  car: 'Ô tô',
+  motorcycle: 'Xe máy',
+};
+
+export const VEHICLE_ORIENTATION_NAMES: Record<VehicleOrientation, string> = {
+  front: 'Đầu xe',
+  rear: 'Đuôi xe',
+  side: 'Thân xe',
+};
+
+// Nhãn ngắn cho overlay trên camera
+export const VEHICLE_ORIENTATION_SHORT_NAMES: Record<VehicleOrientation, string> = {
+  front: 'Đầu',
+  rear: 'Đuôi',
+  side: 'Thân',
+};
+
 // Màu cơ bản của xe
+/**
+ * Vùng HSL của một màu: h theo độ (from > to nghĩa là vòng qua 0, VD: đỏ [340, 20]),
+ * s và l theo %
+ */
+export interface HslRange {
+  h: [number, number];
+  s: [number, number];
+  l: [number, number];
+}
+
+export interface ColorTaxonomyEntry {
+  id: string;          // Mã ổn định, không phụ thuộc ngôn ngữ hiển thị
+  name: string;        // Tên hiển thị
+  hex: string;         // Màu đại diện
+  range: HslRange;
+  family?: string;     // Các màu cùng nhóm chỉ khác nhau do ánh sáng, không tính là xe hai màu
+}
+
+/**
+ * Bảng màu dùng để đặt tên màu xe. Khi các vùng chồng nhau, màu đứng trước được ưu tiên;
+ * màu nằm ngoài mọi vùng được gán cho vùng gần nhất
+ */
+export interface ColorTaxonomy {
+  version: string;
+  colors: ColorTaxonomyEntry[];
+}
+
+// Giữ dạng khóa theo tên (BASIC_CAR_COLORS.WHITE...); thứ tự khai báo là thứ tự ưu tiên trong bảng màu
 export const BASIC_CAR_COLORS = {
-  WHITE: { name: 'Trắng', hex: '#FFFFFF', range: { h: [0, 360], s: [0, 15], l: [85, 100] } },
-  BLACK: { name: 'Đen', hex: '#000000', range: { h: [0, 360], s: [0, 20], l: [0, 15] } },
-  SILVER: { name: 'Bạc', hex: '#C0C0C0', range: { h: [0, 360], s: [0, 15], l: [55, 85] } },
-  GRAY: { name: 'Xám', hex: '#808080', range: { h: [0, 360], s: [0, 15], l: [25, 55] } },
-  RED: { name: 'Đỏ', hex: '#FF0000', range: { h: [0, 20], s: [50, 100], l: [30, 70] } },
-  BLUE: { name: 'Xanh dương', hex: '#0000FF', range: { h: [200, 250], s: [40, 100], l: [25, 60] } },
-  GREEN: { name: 'Xanh lá', hex: '#008000', range: { h: [80, 160], s: [30, 100], l: [20, 55] } },
-  YELLOW: { name: 'Vàng', hex: '#FFFF00', range: { h: [45, 65], s: [50, 100], l: [45, 75] } },
-  ORANGE: { name: 'Cam', hex: '#FFA500', range: { h: [20, 45], s: [70, 100], l: [45, 65] } },
-  BROWN: { name: 'Nâu', hex: '#8B4513', range: { h: [15, 40], s: [30, 70], l: [20, 45] } },
-  BEIGE: { name: 'Be', hex: '#F5F5DC', range: { h: [35, 55], s: [20, 50], l: [70, 90] } },
-} as const;
+  BLACK: { id: 'black', name: 'Đen', hex: '#000000', range: { h: [0, 360], s: [0, 100], l: [0, 15] } },
+  WHITE: { id: 'white', name: 'Trắng', hex: '#FFFFFF', range: { h: [0, 360], s: [0, 15], l: [85, 100] }, family: 'neutral' },
+  SILVER: { id: 'silver', name: 'Bạc', hex: '#C0C0C0', range: { h: [0, 360], s: [0, 15], l: [55, 85] }, family: 'neutral' },
+  GRAY: { id: 'gray', name: 'Xám', hex: '#808080', range: { h: [0, 360], s: [0, 15], l: [15, 55] }, family: 'neutral' },
+  BROWN: { id: 'brown', name: 'Nâu', hex: '#8B4513', range: { h: [15, 40], s: [30, 70], l: [20, 45] } },
+  BEIGE: { id: 'beige', name: 'Be', hex: '#F5F5DC', range: { h: [35, 55], s: [20, 50], l: [70, 90] } },
+  RED: { id: 'red', name: 'Đỏ', hex: '#FF0000', range: { h: [340, 20], s: [15, 100], l: [15, 100] } },
+  ORANGE: { id: 'orange', name: 'Cam', hex: '#FFA500', range: { h: [20, 45], s: [15, 100], l: [15, 100] } },
+  YELLOW: { id: 'yellow', name: 'Vàng', hex: '#FFFF00', range: { h: [45, 65], s: [15, 100], l: [15, 100] } },
+  GREEN: { id: 'green', name: 'Xanh lá', hex: '#008000', range: { h: [65, 160], s: [15, 100], l: [15, 100] } },
+  TEAL: { id: 'teal', name: 'Xanh ngọc', hex: '#008080', range: { h: [160, 200], s: [15, 100], l: [15, 100] } },
+  BLUE: { id: 'blue', name: 'Xanh dương', hex: '#0000FF', range: { h: [200, 250], s: [15, 100], l: [15, 100] } },
+  PURPLE: { id: 'purple', name: 'Tím', hex: '#800080', range: { h: [250, 290], s: [15, 100], l: [15, 100] } },
+  PINK: { id: 'pink', name: 'Hồng', hex: '#FFC0CB', range: { h: [290, 340], s: [15, 100], l: [15, 100] } },
+} satisfies Record<string, ColorTaxonomyEntry>;
+
+export const DEFAULT_COLOR_TAXONOMY: ColorTaxonomy = {
+  version: 'basic-1',
+  colors: Object.values(BASIC_CAR_COLORS),
+};
+
+// Màu biển số VN theo loại xe
+export const PLATE_CATEGORIES: Record<PlateCategory, { name: string; background: string; text: string }> = {
+  private: { name: 'Xe cá nhân', background: 'Trắng', text: 'Đen' },
+  commercial: { name: 'Xe kinh doanh vận tải', background: 'Vàng', text: 'Đen' },
+  government: { name: 'Xe cơ quan nhà nước', background: 'Xanh dương', text: 'Trắng' },
+  military: { name: 'Xe quân đội', background: 'Đỏ', text: 'Trắng' },
+  diplomatic: { name: 'Xe ngoại giao', background: 'Trắng', text: 'Đỏ' },
+  unknown: { name: 'Không xác định', background: '-', text: '-' },
+};
@@ -0,0 +1,119 @@
+import { BoundingBox, Point } from '../types/detection';
+
+export interface ConnectedComponent {
+  label: number;
+  area: number;             // Số điểm ảnh
+  bbox: BoundingBox;
+  // Các điểm cực trị theo x+y và x-y, dùng làm góc của vùng gần tứ giác
+  corners: {
+    topLeft: Point;
+    topRight: Point;
+    bottomRight: Point;
+    bottomLeft: Point;
+  };
+}
+
+/**
+ * Ngưỡng Otsu trên dãy giá trị 0-255: cực đại phương sai giữa hai lớp.
+ * Giá trị > ngưỡng thuộc lớp sáng, <= ngưỡng thuộc lớp tối
+ */
+export const otsuThreshold = (values: ArrayLike<number>): number => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < values.length; i++) {
+    histogram[Math.max(0, Math.min(255, Math.round(values[i])))]++;
+  }
+
+  const total = values.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+};
+
+/**
+ * Gán nhãn các vùng liên thông (4 lân cận) trên mặt nạ nhị phân.
+ * Trả về mảng nhãn (0 = nền) và thống kê của từng vùng
+ */
+export const labelConnectedComponents = (
+  mask: Uint8Array,
+  width: number,
+  height: number
+): { labels: Int32Array; components: ConnectedComponent[] } => {
+  const labels = new Int32Array(width * height);
+  const components: ConnectedComponent[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const label = components.length + 1;
+    let area = 0;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    let topLeft = { x: 0, y: 0 }, topRight = { x: 0, y: 0 };
+    let bottomRight = { x: 0, y: 0 }, bottomLeft = { x: 0, y: 0 };
+    let minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+
+    labels[start] = label;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const idx = stack.pop() as number;
+      const x = idx % width;
+      const y = (idx - x) / width;
+      area++;
+
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      if (x + y < minSum) { minSum = x + y; topLeft = { x, y }; }
+      if (x + y > maxSum) { maxSum = x + y; bottomRight = { x, y }; }
+      if (x - y > maxDiff) { maxDiff = x - y; topRight = { x, y }; }
+      if (x - y < minDiff) { minDiff = x - y; bottomLeft = { x, y }; }
+
+      const neighbors = [
+        x > 0 ? idx - 1 : -1,
+        x < width - 1 ? idx + 1 : -1,
+        y > 0 ? idx - width : -1,
+        y < height - 1 ? idx + width : -1,
+      ];
+      for (const n of neighbors) {
+        if (n >= 0 && mask[n] && !labels[n]) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+
+    components.push({
+      label,
+      area,
+      bbox: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+      corners: { topLeft, topRight, bottomRight, bottomLeft },
+    });
+  }
+
+  return { labels, components };
+};
@@ -0,0 +1,101 @@
+export interface ColorCluster {
+  r: number;
+  g: number;
+  b: number;
+  count: number;            // Số điểm ảnh thuộc cụm
+}
+
+const squaredDistance = (pixels: ArrayLike<number>, i: number, center: ColorCluster): number => {
+  const dr = pixels[i] - center.r;
+  const dg = pixels[i + 1] - center.g;
+  const db = pixels[i + 2] - center.b;
+  return dr * dr + dg * dg + db * db;
+};
+
+/**
+ * Phân cụm k-means trên dãy điểm ảnh RGB liên tiếp [r, g, b, r, g, b, ...].
+ * Tâm khởi tạo tất định: tâm đầu là màu trung bình, mỗi tâm tiếp theo là điểm ảnh
+ * xa nhất so với các tâm đã chọn, nên cùng một ảnh luôn cho cùng một bảng màu.
+ * Trả về các cụm khác rỗng, xếp theo số điểm ảnh giảm dần
+ */
+export const kMeansColors = (
+  pixels: ArrayLike<number>,
+  k: number,
+  maxIterations: number = 10
+): ColorCluster[] => {
+  const pixelCount = Math.floor(pixels.length / 3);
+  if (pixelCount === 0 || k <= 0) return [];
+
+  const mean: ColorCluster = { r: 0, g: 0, b: 0, count: pixelCount };
+  for (let p = 0; p < pixelCount; p++) {
+    mean.r += pixels[p * 3];
+    mean.g += pixels[p * 3 + 1];
+    mean.b += pixels[p * 3 + 2];
+  }
+  mean.r /= pixelCount;
+  mean.g /= pixelCount;
+  mean.b /= pixelCount;
+
+  const centers: ColorCluster[] = [mean];
+  const nearest = new Float64Array(pixelCount).fill(Infinity);
+  while (centers.length < Math.min(k, pixelCount)) {
+    const last = centers[centers.length - 1];
+    let farthest = -1;
+    let farthestDistance = 0;
+    for (let p = 0; p < pixelCount; p++) {
+      nearest[p] = Math.min(nearest[p], squaredDistance(pixels, p * 3, last));
+      if (nearest[p] > farthestDistance) {
+        farthestDistance = nearest[p];
+        farthest = p;
+      }
+    }
+    // Mọi điểm ảnh đã trùng một tâm: ít màu hơn k
+    if (farthest < 0) break;
+    centers.push({ r: pixels[farthest * 3], g: pixels[farthest * 3 + 1], b: pixels[farthest * 3 + 2], count: 0 });
+  }
+
+  const assignments = new Int32Array(pixelCount).fill(-1);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    for (let p = 0; p < pixelCount; p++) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let c = 0; c < centers.length; c++) {
+        const distance = squaredDistance(pixels, p * 3, centers[c]);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      }
+      if (assignments[p] !== best) {
+        assignments[p] = best;
+        changed = true;
+      }
+    }
+
+    const sums = centers.map(() => ({ r: 0, g: 0, b: 0, count: 0 }));
+    for (let p = 0; p < pixelCount; p++) {
+      const sum = sums[assignments[p]];
+      sum.r += pixels[p * 3];
+      sum.g += pixels[p * 3 + 1];
+      sum.b += pixels[p * 3 + 2];
+      sum.count++;
+    }
+    centers.forEach((center, c) => {
+      const sum = sums[c];
+      center.count = sum.count;
+      // Cụm rỗng giữ nguyên tâm cũ
+      if (sum.count > 0) {
+        center.r = sum.r / sum.count;
+        center.g = sum.g / sum.count;
+        center.b = sum.b / sum.count;
+      }
+    });
+
+    if (!changed) break;
+  }
+
+  return centers
+    .filter(center => center.count > 0)
+    .sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,99 @@
+export interface ClaheOptions {
+  tilesX: number;
+  tilesY: number;
+  // Giới hạn mỗi bin histogram, tính theo bội số của số điểm ảnh trung bình mỗi bin
+  clipLimit: number;
+}
+
+/**
+ * Cân bằng histogram thích nghi có giới hạn tương phản (CLAHE) trên ảnh xám 0-255.
+ * Mỗi ô có bảng ánh xạ riêng từ histogram đã cắt đỉnh; giá trị của mỗi điểm ảnh
+ * được nội suy song tuyến giữa bảng ánh xạ của 4 ô gần nhất để không lộ biên ô
+ */
+export const equalizeHistogramAdaptive = (
+  gray: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: ClaheOptions
+): Float32Array => {
+  const tilesX = Math.max(1, Math.min(options.tilesX, width));
+  const tilesY = Math.max(1, Math.min(options.tilesY, height));
+  const tileWidth = width / tilesX;
+  const tileHeight = height / tilesY;
+  const bin = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+  const mappings = new Float32Array(tilesX * tilesY * 256);
+  const histogram = new Float64Array(256);
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = Math.floor(tx * tileWidth);
+      const x1 = Math.floor((tx + 1) * tileWidth);
+      const y0 = Math.floor(ty * tileHeight);
+      const y1 = Math.floor((ty + 1) * tileHeight);
+      const count = (x1 - x0) * (y1 - y0);
+
+      histogram.fill(0);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          histogram[bin(gray[y * width + x])]++;
+        }
+      }
+
+      // Cắt đỉnh histogram và chia đều phần dư cho mọi bin
+      const limit = Math.max(1, (options.clipLimit * count) / 256);
+      let excess = 0;
+      for (let i = 0; i < 256; i++) {
+        if (histogram[i] > limit) {
+          excess += histogram[i] - limit;
+          histogram[i] = limit;
+        }
+      }
+      const redistributed = excess / 256;
+
+      const offset = (ty * tilesX + tx) * 256;
+      let cumulative = 0;
+      for (let i = 0; i < 256; i++) {
+        cumulative += histogram[i] + redistributed;
+        mappings[offset + i] = count > 0 ? (cumulative * 255) / count : i;
+      }
+    }
+  }
+
+  // Vị trí của điểm ảnh trên lưới tâm ô: ô bên trái/trên, ô bên phải/dưới và trọng số của ô thứ hai.
+  // Tính trước cho mọi cột/hàng, vòng lặp điểm ảnh chỉ tra bảng
+  const neighbours = (length: number, tileSize: number, tiles: number) => {
+    const first = new Int32Array(length);
+    const second = new Int32Array(length);
+    const weight = new Float32Array(length);
+    for (let position = 0; position < length; position++) {
+      const grid = (position + 0.5) / tileSize - 0.5;
+      first[position] = Math.max(0, Math.min(tiles - 1, Math.floor(grid)));
+      second[position] = Math.min(tiles - 1, first[position] + 1);
+      weight[position] = Math.max(0, Math.min(1, grid - first[position]));
+    }
+    return { first, second, weight };
+  };
+  const rows = neighbours(height, tileHeight, tilesY);
+  const cols = neighbours(width, tileWidth, tilesX);
+
+  const output = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const topOffset = rows.first[y] * tilesX;
+    const bottomOffset = rows.second[y] * tilesX;
+    const rowWeight = rows.weight[y];
+    for (let x = 0; x < width; x++) {
+      const value = bin(gray[y * width + x]);
+      const left = cols.first[x];
+      const right = cols.second[x];
+      const colWeight = cols.weight[x];
+
+      const top = mappings[(topOffset + left) * 256 + value] * (1 - colWeight) +
+        mappings[(topOffset + right) * 256 + value] * colWeight;
+      const bottom = mappings[(bottomOffset + left) * 256 + value] * (1 - colWeight) +
+        mappings[(bottomOffset + right) * 256 + value] * colWeight;
+      output[y * width + x] = top * (1 - rowWeight) + bottom * rowWeight;
+    }
+  }
+
+  return output;
+};
@@ -0,0 +1,218 @@
+import { BoundingBox } from '../types/detection';
+
+/**
+ * Thông số letterbox: ảnh được thu nhỏ giữ tỷ lệ rồi đệm thành hình vuông inputSize x inputSize
+ */
+export interface LetterboxTransform {
+  inputSize: number;
+  scale: number;
+  padX: number;
+  padY: number;
+  resizedWidth: number;
+  resizedHeight: number;
+}
+
+export interface DecodedBox {
+  bbox: BoundingBox;      // Toạ độ trên ảnh đầu vào của model (pixel)
+  score: number;
+  classIndex: number;
+}
+
+// Anchor SSD, toạ độ chuẩn hóa [0,1] theo ảnh đầu vào
+export interface SsdAnchor {
+  cx: number;
+  cy: number;
+  w: number;
+  h: number;
+}
+
+export interface SsdAnchorOptions {
+  inputSize: number;
+  strides: number[];
+  aspectRatios: number[];
+  minScale: number;
+  maxScale: number;
+}
+
+export interface SsdDecodeOptions {
+  scoreThreshold: number;
+  // Hệ số chia cho [ty, tx, th, tw] (mặc định của TF Object Detection API: 10, 10, 5, 5)
+  boxScales: [number, number, number, number];
+  scoreActivation: 'sigmoid' | 'none';
+  hasBackgroundClass: boolean;
+}
+
+const sigmoid = (x: number): number => 1 / (1 + Math.exp(-x));
+
+export const computeLetterbox = (
+  imageWidth: number,
+  imageHeight: number,
+  inputSize: number
+): LetterboxTransform => {
+  const scale = Math.min(inputSize / imageWidth, inputSize / imageHeight);
+  const resizedWidth = Math.round(imageWidth * scale);
+  const resizedHeight = Math.round(imageHeight * scale);
+
+  return {
+    inputSize,
+    scale,
+    padX: Math.floor((inputSize - resizedWidth) / 2),
+    padY: Math.floor((inputSize - resizedHeight) / 2),
+    resizedWidth,
+    resizedHeight,
+  };
+};
+
+/**
+ * Đổi box trên ảnh letterbox về toạ độ ảnh gốc, cắt trong biên ảnh
+ */
+export const unletterboxBox = (
+  box: BoundingBox,
+  letterbox: LetterboxTransform,
+  imageWidth: number,
+  imageHeight: number
+): BoundingBox => {
+  const x1 = Math.max(0, (box.x - letterbox.padX) / letterbox.scale);
+  const y1 = Math.max(0, (box.y - letterbox.padY) / letterbox.scale);
+  const x2 = Math.min(imageWidth, (box.x + box.width - letterbox.padX) / letterbox.scale);
+  const y2 = Math.min(imageHeight, (box.y + box.height - letterbox.padY) / letterbox.scale);
+
+  return { x: x1, y: y1, width: Math.max(0, x2 - x1), height: Math.max(0, y2 - y1) };
+};
+
+/**
+ * Giải mã đầu ra YOLO dạng [numBoxes, valuesPerBox], mỗi hàng là
+ * [cx, cy, w, h, (objectness), điểm từng lớp...]. YOLOv5 có objectness, YOLOv8 không có.
+ * Toạ độ chuẩn hóa [0,1] được tự nhận ra và đổi sang pixel của ảnh đầu vào
+ */
+export const decodeYoloOutput = (
+  data: ArrayLike<number>,
+  numBoxes: number,
+  valuesPerBox: number,
+  hasObjectness: boolean,
+  inputSize: number,
+  scoreThreshold: number
+): DecodedBox[] => {
+  const classOffset = hasObjectness ? 5 : 4;
+  const numClasses = valuesPerBox - classOffset;
+  if (numClasses <= 0) return [];
+
+  let maxCoordinate = 0;
+  for (let i = 0; i < numBoxes; i++) {
+    maxCoordinate = Math.max(maxCoordinate, data[i * valuesPerBox + 2], data[i * valuesPerBox + 3]);
+  }
+  const coordinateScale = maxCoordinate <= 1.5 ? inputSize : 1;
+
+  const boxes: DecodedBox[] = [];
+  for (let i = 0; i < numBoxes; i++) {
+    const offset = i * valuesPerBox;
+    const objectness = hasObjectness ? data[offset + 4] : 1;
+
+    let classIndex = 0;
+    let classScore = data[offset + classOffset];
+    for (let c = 1; c < numClasses; c++) {
+      if (data[offset + classOffset + c] > classScore) {
+        classScore = data[offset + classOffset + c];
+        classIndex = c;
+      }
+    }
+
+    const score = objectness * classScore;
+    if (score < scoreThreshold) continue;
+
+    const cx = data[offset] * coordinateScale;
+    const cy = data[offset + 1] * coordinateScale;
+    const w = data[offset + 2] * coordinateScale;
+    const h = data[offset + 3] * coordinateScale;
+    boxes.push({
+      bbox: { x: cx - w / 2, y: cy - h / 2, width: w, height: h },
+      score,
+      classIndex,
+    });
+  }
+
+  return boxes;
+};
+
+/**
+ * Sinh anchor SSD theo từng tầng feature map: tỷ lệ kích thước tăng tuyến tính từ minScale
+ * đến maxScale, mỗi ô có một anchor cho mỗi aspect ratio cộng thêm một anchor vuông
+ * trung gian giữa hai tầng. Thứ tự: tầng -> hàng -> cột -> anchor
+ */
+export const generateSsdAnchors = (options: SsdAnchorOptions): SsdAnchor[] => {
+  const { inputSize, strides, aspectRatios, minScale, maxScale } = options;
+  const layerScale = (layer: number): number =>
+    strides.length === 1 ? minScale : minScale + ((maxScale - minScale) * layer) / (strides.length - 1);
+
+  const anchors: SsdAnchor[] = [];
+  strides.forEach((stride, layer) => {
+    const featureSize = Math.ceil(inputSize / stride);
+    const scale = layerScale(layer);
+    const nextScale = layer + 1 < strides.length ? layerScale(layer + 1) : 1;
+
+    for (let y = 0; y < featureSize; y++) {
+      for (let x = 0; x < featureSize; x++) {
+        const cx = (x + 0.5) / featureSize;
+        const cy = (y + 0.5) / featureSize;
+
+        for (const ratio of aspectRatios) {
+          const sqrtRatio = Math.sqrt(ratio);
+          anchors.push({ cx, cy, w: scale * sqrtRatio, h: scale / sqrtRatio });
+        }
+        const interpolated = Math.sqrt(scale * nextScale);
+        anchors.push({ cx, cy, w: interpolated, h: interpolated });
+      }
+    }
+  });
+
+  return anchors;
+};
+
+/**
+ * Giải mã đầu ra SSD thô: hồi quy box [ty, tx, th, tw] theo anchor và điểm từng lớp
+ */
+export const decodeSsdOutput = (
+  boxData: ArrayLike<number>,
+  scoreData: ArrayLike<number>,
+  anchors: SsdAnchor[],
+  numClasses: number,
+  inputSize: number,
+  options: SsdDecodeOptions
+): DecodedBox[] => {
+  const [yScale, xScale, hScale, wScale] = options.boxScales;
+  const firstClass = options.hasBackgroundClass ? 1 : 0;
+
+  const boxes: DecodedBox[] = [];
+  for (let i = 0; i < anchors.length; i++) {
+    let classIndex = -1;
+    let score = 0;
+    for (let c = firstClass; c < numClasses; c++) {
+      const raw = scoreData[i * numClasses + c];
+      const value = options.scoreActivation === 'sigmoid' ? sigmoid(raw) : raw;
+      if (value > score) {
+        score = value;
+        classIndex = c - firstClass;
+      }
+    }
+    if (classIndex < 0 || score < options.scoreThreshold) continue;
+
+    const anchor = anchors[i];
+    const cy = (boxData[i * 4] / yScale) * anchor.h + anchor.cy;
+    const cx = (boxData[i * 4 + 1] / xScale) * anchor.w + anchor.cx;
+    const h = Math.exp(boxData[i * 4 + 2] / hScale) * anchor.h;
+    const w = Math.exp(boxData[i * 4 + 3] / wScale) * anchor.w;
+
+    boxes.push({
+      bbox: {
+        x: (cx - w / 2) * inputSize,
+        y: (cy - h / 2) * inputSize,
+        width: w * inputSize,
+        height: h * inputSize,
+      },
+      score,
+      classIndex,
+    });
+  }
+
+  return boxes;
+};
@@ -0,0 +1,127 @@
+import { BoundingBox, Point } from '../types/detection';
+
+/**
+ * Diện tích giao / diện tích hợp của hai bounding box
+ */
+export const computeIoU = (a: BoundingBox, b: BoundingBox): number => {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+
+  return union > 0 ? intersection / union : 0;
+};
+
+/**
+ * Tỷ lệ diện tích của inner nằm bên trong outer
+ */
+export const computeContainment = (inner: BoundingBox, outer: BoundingBox): number => {
+  const x1 = Math.max(inner.x, outer.x);
+  const y1 = Math.max(inner.y, outer.y);
+  const x2 = Math.min(inner.x + inner.width, outer.x + outer.width);
+  const y2 = Math.min(inner.y + inner.height, outer.y + outer.height);
+
+  const area = inner.width * inner.height;
+  return area > 0 ? (Math.max(0, x2 - x1) * Math.max(0, y2 - y1)) / area : 0;
+};
+
+/**
+ * Non-maximum suppression: giữ ứng viên điểm cao nhất, loại các ứng viên
+ * chồng lấn với nó quá iouThreshold. Kết quả đã sắp xếp theo score giảm dần
+ */
+export const nonMaxSuppression = <T extends { bbox: BoundingBox; score: number }>(
+  candidates: T[],
+  iouThreshold: number,
+  maxResults: number = Infinity
+): T[] => {
+  const sorted = [...candidates].sort((a, b) => b.score - a.score);
+  const kept: T[] = [];
+
+  for (const candidate of sorted) {
+    if (kept.length >= maxResults) break;
+    if (kept.every(k => computeIoU(k.bbox, candidate.bbox) <= iouThreshold)) {
+      kept.push(candidate);
+    }
+  }
+
+  return kept;
+};
+
+/**
+ * Diện tích đa giác (công thức shoelace), các đỉnh theo thứ tự vòng
+ */
+export const polygonArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+/**
+ * Ma trận homography (8 hệ số, h22 = 1) biến 4 điểm `from` thành 4 điểm `to`.
+ * Thứ tự hệ số [a0, a1, a2, b0, b1, b2, c0, c1] giống tf.image.transform
+ */
+export const computeHomography = (from: Point[], to: Point[]): number[] => {
+  // Hệ 8 phương trình tuyến tính, giải bằng khử Gauss
+  const matrix: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+    const pivotValue = matrix[col][col] || 1e-12;
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / pivotValue;
+      for (let k = col; k < 9; k++) {
+        matrix[row][k] -= factor * matrix[col][k];
+      }
+    }
+  }
+
+  return matrix.map((row, i) => row[8] / (row[i] || 1e-12));
+};
+
+export const applyHomography = (h: number[], point: Point): Point => {
+  const k = h[6] * point.x + h[7] * point.y + 1;
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / k,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / k,
+  };
+};
+
+/**
+ * Bounding box nhỏ nhất chứa tất cả các điểm
+ */
+export const boundingBoxOfPoints = (points: Point[]): BoundingBox => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+/**
+ * Đổi bounding box sang hệ toạ độ khác bằng hệ số tỷ lệ theo từng trục
+ */
+export const scaleBoundingBox = (bbox: BoundingBox, scaleX: number, scaleY: number): BoundingBox => ({
+  x: bbox.x * scaleX,
+  y: bbox.y * scaleY,
+  width: bbox.width * scaleX,
+  height: bbox.height * scaleY,
+});
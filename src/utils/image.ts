@@ -0,0 +1,19 @@
+import * as tf from '@tensorflow/tfjs';
+import * as jpeg from 'jpeg-js';
+
+/**
+ * Mã hóa ảnh RGB (0-255) thành chuỗi JPEG base64 để đính kèm vào kết quả / payload
+ */
+export const encodeJpegBase64 = async (image: tf.Tensor3D, quality: number = 85): Promise<string> => {
+  const [height, width] = image.shape;
+  const rgba = tf.tidy(() => {
+    const rgb = image.clipByValue(0, 255).toInt();
+    const alpha = tf.fill([height, width, 1], 255, 'int32');
+    return tf.concat([rgb, alpha], 2);
+  });
+  const data = new Uint8Array(await rgba.data());
+  rgba.dispose();
+
+  const encoded = jpeg.encode({ data, width, height }, quality);
+  return tf.util.decodeString(new Uint8Array(encoded.data), 'base64');
+};
@@ -0,0 +1,100 @@
+// Số hệ số DCT tần số thấp mỗi chiều tạo nên mã băm (8 x 8 = 64 bit)
+const HASH_FREQUENCIES = 8;
+
+/**
+ * Biến đổi DCT-II một chiều của dãy values, chỉ tính `count` hệ số đầu
+ */
+const dct = (values: ArrayLike<number>, count: number): number[] => {
+  const n = values.length;
+  const coefficients: number[] = [];
+  for (let k = 0; k < count; k++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += values[i] * Math.cos((Math.PI * (2 * i + 1) * k) / (2 * n));
+    }
+    coefficients.push(sum);
+  }
+  return coefficients;
+};
+
+/**
+ * Mã băm cảm nhận (pHash) 64 bit của ảnh xám size x size, dạng 16 ký tự hex.
+ * Lấy 8 x 8 hệ số DCT tần số thấp nhất, mỗi bit cho biết hệ số lớn hơn trung vị hay không
+ * (bỏ hệ số DC khi tính trung vị), nên không đổi khi ảnh sáng/tối hơn hoặc tương phản khác
+ */
+export const perceptualHash = (gray: ArrayLike<number>, size: number): string => {
+  const frequencies = Math.min(HASH_FREQUENCIES, size);
+
+  // DCT 2 chiều tách được: theo từng hàng rồi theo từng cột
+  const rows: number[][] = [];
+  for (let y = 0; y < size; y++) {
+    rows.push(dct(Array.prototype.slice.call(gray, y * size, (y + 1) * size), frequencies));
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < frequencies; v++) {
+    const column = dct(rows.map(row => row[v]), frequencies);
+    column.forEach((value, u) => {
+      coefficients[u * frequencies + v] = value;
+    });
+  }
+
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  let hex = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+  return hex;
+};
+
+/**
+ * Số bit khác nhau giữa hai mã băm hex cùng độ dài
+ */
+export const hammingDistance = (first: string, second: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(first.length, second.length); i++) {
+    let diff = parseInt(first[i], 16) ^ parseInt(second[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(first.length - second.length) * 4;
+};
+
+/**
+ * Gom các mã băm thành cụm liên kết đầy đủ (complete linkage): mọi cặp mã trong cùng cụm
+ * cách nhau không quá maxDistance bit, nên các logo khác nhau không bị nối thành chuỗi
+ * qua các mã trung gian. Trả về chỉ số của các mã trong từng cụm, cụm đông nhất trước
+ */
+export const clusterHashes = (hashes: string[], maxDistance: number): number[][] => {
+  const distances = hashes.map(first => hashes.map(second => hammingDistance(first, second)));
+  const clusters = hashes.map((_, i) => [i]);
+  const linkage = (first: number[], second: number[]) =>
+    Math.max(...first.flatMap(i => second.map(j => distances[i][j])));
+
+  // Lần lượt gộp hai cụm gần nhất cho tới khi không còn cặp nào đủ gần
+  for (;;) {
+    let best: { first: number; second: number; distance: number } | null = null;
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const distance = linkage(clusters[a], clusters[b]);
+        if (distance <= maxDistance && (!best || distance < best.distance)) {
+          best = { first: a, second: b, distance };
+        }
+      }
+    }
+    if (!best) break;
+    clusters[best.first] = [...clusters[best.first], ...clusters[best.second]];
+    clusters.splice(best.second, 1);
+  }
+
+  return clusters
+    .map(members => members.sort((a, b) => a - b))
+    .sort((a, b) => b.length - a.length || a[0] - b[0]);
+};
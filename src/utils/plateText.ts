@@ -0,0 +1,348 @@
+import {
+  ParsedPlate,
+  PlateKind,
+  PlateValidationResult,
+} from '../types/detection';
+
+// Mã tỉnh/thành trên biển số theo danh mục của Bộ Công an
+export const VN_PROVINCE_CODES: Record<string, string> = {
+  '11': 'Cao Bằng',
+  '12': 'Lạng Sơn',
+  '14': 'Quảng Ninh',
+  '15': 'Hải Phòng',
+  '16': 'Hải Phòng',
+  '17': 'Thái Bình',
+  '18': 'Nam Định',
+  '19': 'Phú Thọ',
+  '20': 'Thái Nguyên',
+  '21': 'Yên Bái',
+  '22': 'Tuyên Quang',
+  '23': 'Hà Giang',
+  '24': 'Lào Cai',
+  '25': 'Lai Châu',
+  '26': 'Sơn La',
+  '27': 'Điện Biên',
+  '28': 'Hòa Bình',
+  '29': 'Hà Nội',
+  '30': 'Hà Nội',
+  '31': 'Hà Nội',
+  '32': 'Hà Nội',
+  '33': 'Hà Nội',
+  '34': 'Hải Dương',
+  '35': 'Ninh Bình',
+  '36': 'Thanh Hóa',
+  '37': 'Nghệ An',
+  '38': 'Hà Tĩnh',
+  '39': 'Đồng Nai',
+  '40': 'Hà Nội',
+  '41': 'TP. Hồ Chí Minh',
+  '43': 'Đà Nẵng',
+  '47': 'Đắk Lắk',
+  '48': 'Đắk Nông',
+  '49': 'Lâm Đồng',
+  '50': 'TP. Hồ Chí Minh',
+  '51': 'TP. Hồ Chí Minh',
+  '52': 'TP. Hồ Chí Minh',
+  '53': 'TP. Hồ Chí Minh',
+  '54': 'TP. Hồ Chí Minh',
+  '55': 'TP. Hồ Chí Minh',
+  '56': 'TP. Hồ Chí Minh',
+  '57': 'TP. Hồ Chí Minh',
+  '58': 'TP. Hồ Chí Minh',
+  '59': 'TP. Hồ Chí Minh',
+  '60': 'Đồng Nai',
+  '61': 'Bình Dương',
+  '62': 'Long An',
+  '63': 'Tiền Giang',
+  '64': 'Vĩnh Long',
+  '65': 'Cần Thơ',
+  '66': 'Đồng Tháp',
+  '67': 'An Giang',
+  '68': 'Kiên Giang',
+  '69': 'Cà Mau',
+  '70': 'Tây Ninh',
+  '71': 'Bến Tre',
+  '72': 'Bà Rịa - Vũng Tàu',
+  '73': 'Quảng Bình',
+  '74': 'Quảng Trị',
+  '75': 'Thừa Thiên Huế',
+  '76': 'Quảng Ngãi',
+  '77': 'Bình Định',
+  '78': 'Phú Yên',
+  '79': 'Khánh Hòa',
+  '80': 'Cơ quan Trung ương',
+  '81': 'Gia Lai',
+  '82': 'Kon Tum',
+  '83': 'Sóc Trăng',
+  '84': 'Trà Vinh',
+  '85': 'Ninh Thuận',
+  '86': 'Bình Thuận',
+  '88': 'Vĩnh Phúc',
+  '89': 'Hưng Yên',
+  '90': 'Hà Nam',
+  '92': 'Quảng Nam',
+  '93': 'Bình Phước',
+  '94': 'Bạc Liêu',
+  '95': 'Hậu Giang',
+  '97': 'Bắc Kạn',
+  '98': 'Bắc Giang',
+  '99': 'Bắc Ninh',
+};
+
+// Sê-ri 2 chữ của ô tô (liên doanh, khu kinh tế, dự án); các sê-ri 2 chữ khác là xe máy
+const CAR_DOUBLE_LETTER_SERIES = ['LD', 'KT', 'DA'];
+// Ký hiệu biển ngoại giao: NG (ngoại giao), QT (tổ chức quốc tế), NN (người nước ngoài)
+const DIPLOMATIC_SERIES = ['NG', 'QT', 'NN'];
+// Chữ cái đầu của ký hiệu đơn vị trên biển quân đội
+const MILITARY_SERIES_PREFIXES = 'ABHKPQT';
+
+// 'D' = chữ số, 'L' = chữ cái
+type CharClass = 'D' | 'L';
+
+interface PlateFormat {
+  kind: PlateKind;
+  hasProvince: boolean;
+  series: CharClass[];
+  serialLengths: number[];
+  isSeriesAllowed?: (series: string) => boolean;
+}
+
+const PLATE_FORMATS: PlateFormat[] = [
+  // 51F-123.45, 30A-1234
+  { kind: 'car', hasProvince: true, series: ['L'], serialLengths: [4, 5] },
+  // 51LD-123.45
+  {
+    kind: 'car',
+    hasProvince: true,
+    series: ['L', 'L'],
+    serialLengths: [4, 5],
+    isSeriesAllowed: series => CAR_DOUBLE_LETTER_SERIES.includes(series),
+  },
+  // 59-X1 123.45
+  { kind: 'motorbike', hasProvince: true, series: ['L', 'D'], serialLengths: [4, 5] },
+  // 29-AA 123.45 (xe dưới 50cc)
+  {
+    kind: 'motorbike',
+    hasProvince: true,
+    series: ['L', 'L'],
+    serialLengths: [5],
+    isSeriesAllowed: series => !CAR_DOUBLE_LETTER_SERIES.includes(series),
+  },
+  // 80-011-NG-01 (mã tỉnh, mã quốc gia/tổ chức, ký hiệu, số thứ tự)
+  {
+    kind: 'diplomatic',
+    hasProvince: true,
+    series: ['D', 'D', 'D', 'L', 'L'],
+    serialLengths: [2, 3],
+    isSeriesAllowed: series => DIPLOMATIC_SERIES.includes(series.slice(3)),
+  },
+  // TM-12-34
+  {
+    kind: 'military',
+    hasProvince: false,
+    series: ['L', 'L'],
+    serialLengths: [4, 5],
+    isSeriesAllowed: series => MILITARY_SERIES_PREFIXES.includes(series[0]),
+  },
+];
+
+// Các cặp ký tự OCR hay đọc nhầm
+const LETTER_TO_DIGIT: Record<string, string> = {
+  O: '0', D: '0', Q: '0', U: '0',
+  I: '1', L: '1', J: '1',
+  Z: '2',
+  A: '4',
+  S: '5',
+  G: '6',
+  T: '7',
+  B: '8',
+};
+const DIGIT_TO_LETTER: Record<string, string> = {
+  '0': 'D',
+  '1': 'T',
+  '2': 'Z',
+  '4': 'A',
+  '5': 'S',
+  '6': 'G',
+  '7': 'T',
+  '8': 'B',
+};
+
+// Bảng ký tự dùng chung cho bộ đọc biển (OCR) và bộ kiểm tra chuỗi biển số.
+// Chữ cái: I, J, O, W không được cấp vì dễ nhầm với chữ số; Q có trong biển quân đội và QT
+export const PLATE_DIGITS = '0123456789';
+export const PLATE_LETTERS = 'ABCDEFGHKLMNPQRSTUVXYZ';
+
+const isDigit = (char: string): boolean => PLATE_DIGITS.includes(char);
+const isLetter = (char: string): boolean => PLATE_LETTERS.includes(char);
+
+/**
+ * Bộ ký tự được phép ở từng vị trí, theo mọi định dạng biển có đúng `length` ký tự
+ * (không tính dấu phân cách). Mỗi phần tử là một cách xếp; mảng rỗng nếu không định dạng nào khớp
+ */
+export const plateCharacterSets = (length: number): string[][] => {
+  const patterns = new Map<string, string[]>();
+  for (const format of PLATE_FORMATS) {
+    const provinceLength = format.hasProvince ? 2 : 0;
+    const serialLength = length - provinceLength - format.series.length;
+    if (!format.serialLengths.includes(serialLength)) continue;
+
+    const classes: CharClass[] = [
+      ...Array<CharClass>(provinceLength).fill('D'),
+      ...format.series,
+      ...Array<CharClass>(serialLength).fill('D'),
+    ];
+    patterns.set(classes.join(''), classes.map(charClass => (charClass === 'D' ? PLATE_DIGITS : PLATE_LETTERS)));
+  }
+  return Array.from(patterns.values());
+};
+
+/**
+ * Chuẩn hóa chuỗi biển số: viết hoa, bỏ khoảng trắng và dấu phân cách (-, ., ·, _)
+ */
+export const normalizePlateText = (text: string): string =>
+  text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const formatSerial = (serial: string): string =>
+  serial.length === 5 ? `${serial.slice(0, 3)}.${serial.slice(3)}` : serial;
+
+const formatPlate = (kind: PlateKind, province: string, series: string, serial: string): string => {
+  switch (kind) {
+    case 'car':
+      return `${province}${series}-${formatSerial(serial)}`;
+    case 'motorbike':
+      return `${province}-${series} ${formatSerial(serial)}`;
+    case 'diplomatic':
+      return `${province}-${series.slice(0, 3)}-${series.slice(3)}-${serial}`;
+    case 'military':
+      return `${series}-${serial.slice(0, 2)}-${serial.slice(2)}`;
+  }
+};
+
+/**
+ * Khớp chuỗi (đã chuẩn hóa) với một định dạng. Khi allowCorrections = true,
+ * ký tự sai loại được thay theo bảng nhầm lẫn OCR; trả về cả số ký tự đã thay
+ */
+const matchFormat = (
+  normalized: string,
+  format: PlateFormat,
+  allowCorrections: boolean
+): { plate: ParsedPlate; corrections: number } | null => {
+  const provinceLength = format.hasProvince ? 2 : 0;
+  const serialLength = normalized.length - provinceLength - format.series.length;
+  if (!format.serialLengths.includes(serialLength)) return null;
+
+  const classes: CharClass[] = [
+    ...Array<CharClass>(provinceLength).fill('D'),
+    ...format.series,
+    ...Array<CharClass>(serialLength).fill('D'),
+  ];
+
+  let corrections = 0;
+  let text = '';
+  for (let i = 0; i < normalized.length; i++) {
+    let char = normalized[i];
+    const expectsDigit = classes[i] === 'D';
+
+    if (expectsDigit ? !isDigit(char) : !isLetter(char)) {
+      const replacement = expectsDigit ? LETTER_TO_DIGIT[char] : DIGIT_TO_LETTER[char];
+      if (!allowCorrections || !replacement) return null;
+      char = replacement;
+      corrections++;
+    }
+    text += char;
+  }
+
+  const province = text.slice(0, provinceLength);
+  const series = text.slice(provinceLength, provinceLength + format.series.length);
+  const serial = text.slice(provinceLength + format.series.length);
+  if (format.isSeriesAllowed && !format.isSeriesAllowed(series)) return null;
+
+  return {
+    plate: {
+      kind: format.kind,
+      normalized: text,
+      formatted: formatPlate(format.kind, province, series, serial),
+      provinceCode: format.hasProvince ? province : null,
+      provinceName: format.hasProvince ? VN_PROVINCE_CODES[province] || null : null,
+      series,
+      serial,
+    },
+    corrections,
+  };
+};
+
+const hasValidProvince = (plate: ParsedPlate): boolean =>
+  plate.provinceCode === null || plate.provinceName !== null;
+
+/**
+ * Cùng một chuỗi có thể khớp nhiều định dạng (VD: 50X11234 là 50X-112.34 hoặc 50-X1 1234).
+ * Ưu tiên định dạng có dấu "-" đầu tiên cùng vị trí với chuỗi gốc
+ */
+const keepsSeparatorLayout = (text: string, plate: ParsedPlate): boolean => {
+  const dashIndex = text.trim().indexOf('-');
+  return dashIndex >= 0 && dashIndex === plate.formatted.indexOf('-');
+};
+
+/**
+ * Tách chuỗi biển số thành mã tỉnh, sê-ri và số thứ tự.
+ * Trả về null nếu không khớp định dạng nào (không tự sửa ký tự)
+ */
+export const parsePlateText = (text: string): ParsedPlate | null => {
+  const normalized = normalizePlateText(text);
+  const matches = PLATE_FORMATS
+    .map(format => matchFormat(normalized, format, false))
+    .filter((match): match is NonNullable<typeof match> => match !== null)
+    .map(match => match.plate);
+
+  return matches.find(plate => keepsSeparatorLayout(text, plate)) || matches[0] || null;
+};
+
+/**
+ * Gợi ý các cách đọc hợp lệ bằng cách thay các ký tự OCR hay nhầm (0/O, 8/B, 1/I...).
+ * Kết quả sắp xếp theo số ký tự phải thay tăng dần
+ */
+export const suggestPlateCorrections = (text: string, maxSuggestions: number = 3): ParsedPlate[] => {
+  const normalized = normalizePlateText(text);
+  const suggestions: Array<{ plate: ParsedPlate; corrections: number }> = [];
+
+  for (const format of PLATE_FORMATS) {
+    const match = matchFormat(normalized, format, true);
+    if (!match || !hasValidProvince(match.plate)) continue;
+    if (match.corrections === 0) continue;
+    if (suggestions.some(s => s.plate.formatted === match.plate.formatted)) continue;
+    suggestions.push(match);
+  }
+
+  return suggestions
+    .sort((a, b) =>
+      a.corrections - b.corrections ||
+      Number(keepsSeparatorLayout(text, b.plate)) - Number(keepsSeparatorLayout(text, a.plate))
+    )
+    .slice(0, maxSuggestions)
+    .map(s => s.plate);
+};
+
+/**
+ * Kiểm tra chuỗi biển số theo định dạng và danh mục mã tỉnh,
+ * kèm gợi ý sửa khi chuỗi không hợp lệ
+ */
+export const validatePlateText = (text: string): PlateValidationResult => {
+  const plate = parsePlateText(text);
+  const errors: string[] = [];
+
+  if (!plate) {
+    errors.push('Không đúng định dạng biển số');
+  } else if (!hasValidProvince(plate)) {
+    errors.push(`Mã tỉnh ${plate.provinceCode} không tồn tại`);
+  }
+
+  const isValid = errors.length === 0;
+
+  return {
+    isValid,
+    plate,
+    errors,
+    suggestions: isValid ? [] : suggestPlateCorrections(text),
+  };
+};
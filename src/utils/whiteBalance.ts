@@ -0,0 +1,95 @@
+export interface ChannelGains {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Tỷ lệ điểm ảnh sáng nhất dùng cho white-patch
+const WHITE_PATCH_RATIO = 0.05;
+// Điểm ảnh có kênh chạm mức này đã bị cắt, không còn giữ màu nguồn sáng
+const CLIPPED_LEVEL = 250;
+// Giới hạn hệ số mỗi kênh để không khuếch đại nhiễu quá tay khi ước lượng sai
+const MAX_GAIN = 3;
+
+/**
+ * Hệ số nhân mỗi kênh để màu nguồn sáng (illuminant) trở thành xám trung tính.
+ * Kênh mạnh nhất giữ nguyên, các kênh khác được kéo lên bằng nó nên vật trắng vẫn trắng
+ */
+export const gainsFromIlluminant = (illuminant: ChannelGains): ChannelGains => {
+  const r = Math.max(illuminant.r, 1e-3);
+  const g = Math.max(illuminant.g, 1e-3);
+  const b = Math.max(illuminant.b, 1e-3);
+  const max = Math.max(r, g, b);
+  const clamp = (gain: number) => Math.min(MAX_GAIN, gain);
+  return { r: clamp(max / r), g: clamp(max / g), b: clamp(max / b) };
+};
+
+/**
+ * Hệ số đưa màu đo được của một vật trắng đã biết (VD: nền biển số) về whiteLevel ở mọi kênh:
+ * vừa cân bằng trắng vừa bù độ sáng khi vật chuẩn và xe cùng nằm trong bóng râm
+ */
+export const gainsFromWhiteReference = (reference: ChannelGains, whiteLevel: number): ChannelGains => {
+  const gain = (value: number) => Math.max(1 / MAX_GAIN, Math.min(MAX_GAIN, whiteLevel / Math.max(value, 1)));
+  return { r: gain(reference.r), g: gain(reference.g), b: gain(reference.b) };
+};
+
+/**
+ * Ước lượng màu nguồn sáng của cảnh từ dãy điểm ảnh RGB [r, g, b, ...]:
+ * trung bình của gray-world (màu trung bình cả cảnh là xám) và white-patch
+ * (các điểm sáng nhất chưa bị cắt là trắng), sau khi chuẩn hóa cùng độ sáng
+ */
+export const estimateIlluminant = (pixels: ArrayLike<number>): ChannelGains | null => {
+  const pixelCount = Math.floor(pixels.length / 3);
+  if (pixelCount === 0) return null;
+
+  const grayWorld = { r: 0, g: 0, b: 0 };
+  const brightness: Array<{ index: number; sum: number }> = [];
+  for (let p = 0; p < pixelCount; p++) {
+    const r = pixels[p * 3];
+    const g = pixels[p * 3 + 1];
+    const b = pixels[p * 3 + 2];
+    grayWorld.r += r;
+    grayWorld.g += g;
+    grayWorld.b += b;
+    if (Math.max(r, g, b) < CLIPPED_LEVEL) {
+      brightness.push({ index: p, sum: r + g + b });
+    }
+  }
+
+  const whitePatch = { r: 0, g: 0, b: 0 };
+  brightness.sort((a, b) => b.sum - a.sum);
+  const patchSize = Math.max(1, Math.round(pixelCount * WHITE_PATCH_RATIO));
+  const patch = brightness.slice(0, patchSize);
+  patch.forEach(({ index }) => {
+    whitePatch.r += pixels[index * 3];
+    whitePatch.g += pixels[index * 3 + 1];
+    whitePatch.b += pixels[index * 3 + 2];
+  });
+
+  // Chuẩn hóa về sắc độ (tổng 3 kênh = 3) trước khi lấy trung bình
+  const chromaticity = (color: ChannelGains) => {
+    const sum = Math.max(color.r + color.g + color.b, 1e-6);
+    return { r: (3 * color.r) / sum, g: (3 * color.g) / sum, b: (3 * color.b) / sum };
+  };
+  const fromGrayWorld = chromaticity(grayWorld);
+  if (patch.length === 0) return fromGrayWorld;
+
+  const fromWhitePatch = chromaticity(whitePatch);
+  return {
+    r: (fromGrayWorld.r + fromWhitePatch.r) / 2,
+    g: (fromGrayWorld.g + fromWhitePatch.g) / 2,
+    b: (fromGrayWorld.b + fromWhitePatch.b) / 2,
+  };
+};
+
+/**
+ * Nhân hệ số cân bằng trắng vào dãy điểm ảnh RGB, cắt trong [0, 255]
+ */
+export const applyGains = (pixels: ArrayLike<number>, gains: ChannelGains): number[] => {
+  const channelGains = [gains.r, gains.g, gains.b];
+  const balanced = new Array<number>(pixels.length);
+  for (let i = 0; i < pixels.length; i++) {
+    balanced[i] = Math.min(255, pixels[i] * channelGains[i % 3]);
+  }
+  return balanced;
+};